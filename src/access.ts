@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { GameRoom, RoomVisibility } from './models';
+import { ErrorPayload } from './events';
+
+export const ROOM_VISIBILITIES: RoomVisibility[] = ['public', 'unlisted', 'password'];
+
+// Passwords are stored as `salt:hash`, hashed with scrypt
+export const hashPassword = (password: string): string => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  return `${salt}:${crypto.scryptSync(password, salt, 32).toString('hex')}`;
+};
+
+export const verifyPassword = (password: string, passwordHash: string): boolean => {
+  const [salt, hash] = passwordHash.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  return crypto.timingSafeEqual(crypto.scryptSync(password, salt, expected.length), expected);
+};
+
+// Compare tokens in constant time so their content cannot be guessed from response times
+export const isValidToken = (given: string, expected: string): boolean => {
+  const givenHash = crypto.createHash('sha256').update(given).digest();
+  const expectedHash = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(givenHash, expectedHash);
+};
+
+// Check an `Authorization: Bearer <token>` header against the expected token
+export const isValidBearerToken = (header: string | undefined, expected: string): boolean => {
+  const [scheme, given] = (header || '').split(' ');
+  return scheme === 'Bearer' && !!given && isValidToken(given, expected);
+};
+
+interface InviteClaims {
+  roomId: string;
+  inviteId: string;
+  expiresAt: number; // Timestamp (ms)
+}
+
+const sign = (secret: string, data: string): string => {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+};
+
+// Invite tokens are the claims and their signature, both base64url encoded and joined by a dot
+export const createInviteToken = (secret: string, claims: InviteClaims): string => {
+  const data = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${data}.${sign(secret, data)}`;
+};
+
+// Read the claims of an invite token, or null if it was not signed with the secret
+export const verifyInviteToken = (secret: string, token: string): InviteClaims | null => {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(secret, data));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+
+  try {
+    return JSON.parse(Buffer.from(data, 'base64url').toString());
+  } catch {
+    return null;
+  }
+};
+
+// Check that a client may enter a room, with the room's password or an invite.
+// Unlisted and public rooms are open to anyone who knows the code.
+export const checkRoomAccess = (
+  room: GameRoom,
+  secret: string,
+  credentials: { password?: string; inviteToken?: string },
+  now = Date.now()
+): ErrorPayload | null => {
+  if (credentials.inviteToken) {
+    const claims = verifyInviteToken(secret, credentials.inviteToken);
+    if (!claims || claims.roomId !== room.id || !room.invites.some(i => i.id === claims.inviteId)) {
+      return { code: 'INVALID_INVITE', message: 'Invite is invalid or was revoked' };
+    }
+    if (claims.expiresAt <= now) {
+      return { code: 'INVALID_INVITE', message: 'Invite has expired' };
+    }
+    return null;
+  }
+
+  if (room.settings.visibility === 'password' && room.passwordHash) {
+    if (!credentials.password || !verifyPassword(credentials.password, room.passwordHash)) {
+      return { code: 'WRONG_PASSWORD', message: 'Wrong room password' };
+    }
+  }
+  return null;
+};
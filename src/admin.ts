@@ -0,0 +1,114 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { GameRoom } from './models';
+import { RoomStore } from './store';
+import { isValidBearerToken } from './access';
+import { logger } from './logger';
+import { broadcastNotice, closeRoom, findLockedRoomByCode, kickPlayer, Server, withRoomLocks } from './socket';
+
+const DEFAULT_CLOSE_MESSAGE = 'This room was closed by the server operators';
+
+// Room details for operators, without reconnect tokens or password hashes
+const toAdminRoom = ({ passwordHash, ...room }: GameRoom) => ({
+  ...room,
+  players: room.players.map(({ reconnectToken, ...player }) => player)
+});
+
+// HTTP routes to operate live rooms, authenticated with `Authorization: Bearer <token>`
+export const createAdminRouter = (io: Server, rooms: RoomStore, token: string): Router => {
+  const router = Router();
+
+  router.use('/admin', (req: Request, res: Response, next: NextFunction) => {
+    if (!isValidBearerToken(req.headers.authorization, token)) {
+      return res.status(401).json({ status: 'error', message: 'Invalid admin token' });
+    }
+    next();
+  });
+  router.use('/admin', express.json());
+
+  // List every room with its players and age
+  router.get('/admin/rooms', async (req, res) => {
+    try {
+      const now = Date.now();
+      const list = (await rooms.list()).map(room => ({
+        id: room.id,
+        code: room.code,
+        gameState: room.gameState,
+        locked: room.locked,
+        players: room.players.map(p => ({ id: p.id, nickname: p.nickname, isHost: p.isHost, isCoHost: p.isCoHost, isBot: p.isBot, connected: p.connected })),
+        spectatorCount: room.spectators.length,
+        createdAt: room.createdAt,
+        ageSeconds: Math.floor((now - room.createdAt.getTime()) / 1000)
+      }));
+
+      res.status(200).json({ status: 'ok', rooms: list });
+    } catch (error) {
+      logger.error('Error listing rooms', { error });
+      res.status(500).json({ status: 'error', message: 'Failed to list rooms' });
+    }
+  });
+
+  // Inspect the full state of a room
+  router.get('/admin/rooms/:code', async (req, res) => {
+    try {
+      const room = await rooms.findByCode(req.params.code.toUpperCase());
+      if (!room) {
+        return res.status(404).json({ status: 'error', message: 'Room not found' });
+      }
+
+      res.status(200).json({ status: 'ok', room: toAdminRoom(room) });
+    } catch (error) {
+      logger.error('Error inspecting room', { error });
+      res.status(500).json({ status: 'error', message: 'Failed to inspect room' });
+    }
+  });
+
+  // Close a room, players and spectators get the message as a `room-closed` event
+  router.post('/admin/rooms/:code/close', (req, res) => withRoomLocks(async () => {
+    try {
+      const room = await findLockedRoomByCode(req.params.code.toUpperCase());
+      if (!room) {
+        return res.status(404).json({ status: 'error', message: 'Room not found' });
+      }
+
+      const message = typeof req.body?.message === 'string' && req.body.message ? req.body.message : DEFAULT_CLOSE_MESSAGE;
+      await closeRoom(io, room, message);
+      res.status(200).json({ status: 'ok' });
+    } catch (error) {
+      logger.error('Error closing room', { error });
+      res.status(500).json({ status: 'error', message: 'Failed to close room' });
+    }
+  }));
+
+  // Kick a player out of a room
+  router.post('/admin/rooms/:code/kick', (req, res) => withRoomLocks(async () => {
+    try {
+      const room = await findLockedRoomByCode(req.params.code.toUpperCase());
+      if (!room) {
+        return res.status(404).json({ status: 'error', message: 'Room not found' });
+      }
+
+      const player = room.players.find(p => p.id === req.body?.playerId);
+      if (!player) {
+        return res.status(404).json({ status: 'error', message: 'Player not found' });
+      }
+
+      await kickPlayer(io, room, player);
+      res.status(200).json({ status: 'ok' });
+    } catch (error) {
+      logger.error('Error kicking player', { error });
+      res.status(500).json({ status: 'error', message: 'Failed to kick player' });
+    }
+  }));
+
+  // Send a maintenance message to every connected socket
+  router.post('/admin/broadcast', (req, res) => {
+    if (typeof req.body?.message !== 'string' || !req.body.message) {
+      return res.status(400).json({ status: 'error', message: 'A message is required' });
+    }
+
+    broadcastNotice(io, req.body.message);
+    res.status(200).json({ status: 'ok' });
+  });
+
+  return router;
+};
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { GameArchive, GameRoom } from './models';
+import { ImageStore, isImageId } from './images';
+import { reviveDates } from './store';
+import { logger } from './logger';
+
+// Storage backend for finished games
+export interface ArchiveStore {
+  save(archive: GameArchive): Promise<void>;
+  update(archive: GameArchive): Promise<void>; // Replace a saved game, whose drawings are already retained
+  get(roomId: string, gameId: string): Promise<GameArchive | null>;
+  listByRoom(roomId: string): Promise<GameArchive[]>;
+}
+
+// Snapshot a room that just reached the results phase
+export const createArchive = (room: GameRoom): GameArchive => ({
+  id: uuidv4(),
+  downloadToken: crypto.randomBytes(24).toString('base64url'),
+  roomId: room.id,
+  roomCode: room.code,
+  startedAt: room.startedAt || room.createdAt,
+  finishedAt: new Date(),
+  maxRounds: room.maxRounds,
+  settings: { ...room.settings },
+  players: room.players.map(({ id, nickname, profilePic }) => ({ id, nickname, profilePic })),
+  chains: JSON.parse(JSON.stringify(room.chains))
+});
+
+// Stored drawings of an archived game, older games kept them inline as data URLs
+const getImageIds = (archive: GameArchive): string[] => {
+  return archive.chains
+    .flatMap(chain => chain.entries)
+    .filter(entry => entry.type === 'drawing' && isImageId(entry.content))
+    .map(entry => entry.content);
+};
+
+// Archived games hold their own references to their drawings, so they outlive the room
+const retainImages = async (images: ImageStore, archive: GameArchive): Promise<void> => {
+  await Promise.all(getImageIds(archive).map(imageId => images.retain(imageId)));
+};
+
+// Most recent games first
+const byFinishDate = (a: GameArchive, b: GameArchive): number => {
+  return b.finishedAt.getTime() - a.finishedAt.getTime();
+};
+
+// Keeps the most recent finished games in process memory, lost on restart
+export class MemoryArchiveStore implements ArchiveStore {
+  private archives: Map<string, GameArchive> = new Map(); // In the order they were saved
+
+  constructor(private maxGames: number, private images: ImageStore) {}
+
+  async save(archive: GameArchive): Promise<void> {
+    await retainImages(this.images, archive);
+    this.archives.set(archive.id, archive);
+
+    // Drop the oldest games once there are too many, along with their drawings
+    for (const [gameId, dropped] of this.archives) {
+      if (this.archives.size <= this.maxGames) break;
+      this.archives.delete(gameId);
+      await Promise.all(getImageIds(dropped).map(imageId => this.images.release(imageId)));
+    }
+  }
+
+  async update(archive: GameArchive): Promise<void> {
+    // A game dropped in the meantime stays dropped
+    if (this.archives.has(archive.id)) {
+      this.archives.set(archive.id, archive);
+    }
+  }
+
+  async get(roomId: string, gameId: string): Promise<GameArchive | null> {
+    const archive = this.archives.get(gameId);
+    return archive && archive.roomId === roomId ? archive : null;
+  }
+
+  async listByRoom(roomId: string): Promise<GameArchive[]> {
+    return Array.from(this.archives.values())
+      .filter(archive => archive.roomId === roomId)
+      .sort(byFinishDate);
+  }
+}
+
+// Room and game IDs are UUIDs, anything else could escape the directory
+const isUuid = (id: string): boolean => /^[0-9a-f-]{36}$/.test(id);
+
+// Writes every finished game to its own JSON file, in one directory per room, and keeps the most
+// recent ones. Each file's modification time is set to when its game finished, so the games can be
+// ordered at startup without reading them.
+export class FileArchiveStore implements ArchiveStore {
+  private games: Map<string, string> = new Map(); // Room ID of each game, oldest game first
+
+  constructor(private directory: string, private maxGames: number, private images: ImageStore) {
+    this.load();
+  }
+
+  async save(archive: GameArchive): Promise<void> {
+    await retainImages(this.images, archive);
+    await fs.promises.mkdir(path.join(this.directory, archive.roomId), { recursive: true });
+    await this.write(archive);
+    this.games.set(archive.id, archive.roomId);
+
+    // Drop the oldest games once there are too many, along with their drawings
+    for (const [gameId, roomId] of this.games) {
+      if (this.games.size <= this.maxGames) break;
+      this.games.delete(gameId);
+      await this.drop(roomId, gameId);
+    }
+  }
+
+  async update(archive: GameArchive): Promise<void> {
+    if (!fs.existsSync(this.filePath(archive.roomId, archive.id))) return;
+    await this.write(archive);
+  }
+
+  async get(roomId: string, gameId: string): Promise<GameArchive | null> {
+    if (!isUuid(roomId) || !isUuid(gameId)) return null;
+
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath(roomId, gameId), 'utf8'), reviveDates);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async listByRoom(roomId: string): Promise<GameArchive[]> {
+    const roomDirectory = path.join(this.directory, roomId);
+    if (!isUuid(roomId) || !fs.existsSync(roomDirectory)) return [];
+
+    const files = await fs.promises.readdir(roomDirectory);
+    const archives = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(async file => {
+          const data = await fs.promises.readFile(path.join(roomDirectory, file), 'utf8');
+          return JSON.parse(data, reviveDates) as GameArchive;
+        })
+    );
+    return archives.sort(byFinishDate);
+  }
+
+  // Find the games saved by a previous run, in the order they finished
+  private load(): void {
+    if (!fs.existsSync(this.directory)) return;
+
+    const games = fs.readdirSync(this.directory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && isUuid(entry.name))
+      .flatMap(room => fs.readdirSync(path.join(this.directory, room.name))
+        .filter(file => file.endsWith('.json'))
+        .map(file => {
+          const filePath = path.join(this.directory, room.name, file);
+          return { roomId: room.name, gameId: path.basename(file, '.json'), finishedAt: fs.statSync(filePath).mtimeMs };
+        }))
+      .sort((a, b) => a.finishedAt - b.finishedAt);
+    games.forEach(({ roomId, gameId }) => this.games.set(gameId, roomId));
+    logger.info('Loaded archived games', { count: this.games.size, path: this.directory });
+  }
+
+  private async write(archive: GameArchive): Promise<void> {
+    const filePath = this.filePath(archive.roomId, archive.id);
+    await fs.promises.writeFile(filePath, JSON.stringify(archive));
+    await fs.promises.utimes(filePath, archive.finishedAt, archive.finishedAt);
+  }
+
+  // Delete a game's file, the room's directory once it is empty, and the game's references to its drawings
+  private async drop(roomId: string, gameId: string): Promise<void> {
+    const dropped = await this.get(roomId, gameId);
+    await fs.promises.rm(this.filePath(roomId, gameId), { force: true });
+    await fs.promises.rmdir(path.join(this.directory, roomId)).catch(() => undefined);
+    if (dropped) {
+      await Promise.all(getImageIds(dropped).map(imageId => this.images.release(imageId)));
+    }
+  }
+
+  private filePath(roomId: string, gameId: string): string {
+    return path.join(this.directory, roomId, `${gameId}.json`);
+  }
+}
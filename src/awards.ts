@@ -0,0 +1,75 @@
+import { Award, Awards, GameRoom, StepVotes, VoteKind } from './models';
+
+export const VOTE_KINDS: VoteKind[] = ['love', 'laugh', 'derailed'];
+
+// Key of a chain step in the room's vote tallies
+export const stepKey = (chainId: string, entryIndex: number): string => `${chainId}:${entryIndex}`;
+
+// Add a voter's reaction to a chain step, or take it back if they already gave it
+export const toggleVote = (
+  room: GameRoom,
+  voterId: string,
+  chainIndex: number,
+  entryIndex: number,
+  kind: VoteKind
+): StepVotes | null => {
+  const chain = room.chains[chainIndex];
+  if (!chain || !chain.entries[entryIndex]) return null;
+
+  const key = stepKey(chain.id, entryIndex);
+  if (!room.votes[key]) {
+    room.votes[key] = {
+      chainId: chain.id,
+      entryIndex,
+      voters: { love: [], laugh: [], derailed: [] }
+    };
+  }
+
+  const votes = room.votes[key];
+  const index = votes.voters[kind].indexOf(voterId);
+  if (index === -1) {
+    votes.voters[kind].push(voterId);
+  } else {
+    votes.voters[kind].splice(index, 1);
+  }
+  return votes;
+};
+
+// Pick the winners of every award category from the room's tallies
+export const computeAwards = (room: GameRoom): Awards => {
+  let bestDrawing: Award | null = null;
+  let funniestSentence: Award | null = null;
+  const derailedByChain: Map<string, number> = new Map();
+
+  Object.values(room.votes).forEach(step => {
+    const chain = room.chains.find(c => c.id === step.chainId);
+    const entry = chain?.entries[step.entryIndex];
+    if (!chain || !entry || entry.placeholder || entry.hidden) return;
+
+    const candidate = (kind: VoteKind): Award => ({
+      chainId: chain.id,
+      entryIndex: step.entryIndex,
+      playerId: entry.playerId,
+      votes: step.voters[kind].length
+    });
+
+    if (entry.type === 'drawing' && step.voters.love.length > (bestDrawing?.votes || 0)) {
+      bestDrawing = candidate('love');
+    }
+    if (entry.type === 'sentence' && step.voters.laugh.length > (funniestSentence?.votes || 0)) {
+      funniestSentence = candidate('laugh');
+    }
+    derailedByChain.set(chain.id, (derailedByChain.get(chain.id) || 0) + step.voters.derailed.length);
+  });
+
+  // The most derailed chain is the one with the most derailed votes over all its steps
+  let mostDerailedChain: Award | null = null;
+  derailedByChain.forEach((votes, chainId) => {
+    const chain = room.chains.find(c => c.id === chainId);
+    if (chain && votes > (mostDerailedChain?.votes || 0)) {
+      mostDerailedChain = { chainId, entryIndex: null, playerId: chain.ownerId, votes };
+    }
+  });
+
+  return { bestDrawing, funniestSentence, mostDerailedChain };
+};
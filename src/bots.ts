@@ -0,0 +1,80 @@
+import { DecodedImage } from './images';
+import { Canvas, Rgb } from './raster';
+
+const BOT_NAMES = [
+  'Robo Rita', 'Beep Boop', 'Sir Pixel', 'Doodlebot', 'Captain Crayon', 'Scribbles',
+  'Unit 42', 'Clanky', 'Sketchy Steve', 'Widget', 'Gizmo', 'Professor Bolt'
+];
+
+// Sentences bots write, whatever their prompt was (they cannot look at drawings)
+const BOT_SENTENCES = [
+  'A cat running for mayor',
+  'The moon forgot to set its alarm',
+  'A wizard stuck in traffic',
+  'Two penguins arguing about pizza',
+  'A dragon learning to knit',
+  'The last slice of cake in the universe',
+  'A robot falling in love with a toaster',
+  'Grandma wins the skateboarding championship',
+  'A shark afraid of water',
+  'The world\'s slowest bank robbery',
+  'A snowman on a beach holiday',
+  'A ghost who is scared of people',
+  'Dinosaurs at a job interview',
+  'A knight fighting a very angry goose',
+  'The dentist is a crocodile',
+  'A tiny horse with enormous sunglasses',
+  'Aliens discovering karaoke',
+  'A volcano with the hiccups',
+  'A pirate who gets seasick',
+  'The tree that wanted to be a lamp post',
+  'A chef cooking with lightning',
+  'Bees holding a very important meeting',
+  'A cloud that rains spaghetti',
+  'A mummy unwrapping a birthday present'
+];
+
+// Bright colours for the shapes of generated drawings
+const PALETTE: Rgb[] = [
+  [231, 76, 60], [241, 196, 15], [46, 204, 113], [52, 152, 219], [155, 89, 182], [230, 126, 34], [44, 62, 80]
+];
+
+const DRAWING_WIDTH = 160;
+const DRAWING_HEIGHT = 120;
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+// A bot name that nobody in the room has yet, numbered once they run out
+export const pickBotName = (taken: string[]): string => {
+  const free = BOT_NAMES.filter(name => !taken.includes(name));
+  if (free.length > 0) return pick(free);
+
+  let number = 2;
+  while (taken.includes(`Bot ${number}`)) number += 1;
+  return `Bot ${number}`;
+};
+
+export const writeBotSentence = (): string => pick(BOT_SENTENCES);
+
+// A few random circles and a scribble on a white canvas, clearly not a real drawing
+export const drawBotPicture = (): DecodedImage => {
+  const canvas = new Canvas(DRAWING_WIDTH, DRAWING_HEIGHT);
+
+  for (let i = 0; i < 3; i++) {
+    canvas.fillCircle(Math.random() * DRAWING_WIDTH, Math.random() * DRAWING_HEIGHT, 8 + Math.random() * 24, pick(PALETTE));
+  }
+
+  // Random walk with a three pixel brush
+  const color = pick(PALETTE);
+  let x = DRAWING_WIDTH / 2;
+  let y = DRAWING_HEIGHT / 2;
+  for (let step = 0; step < 400; step++) {
+    const nextX = Math.min(Math.max(x + (Math.random() - 0.5) * 6, 0), DRAWING_WIDTH - 1);
+    const nextY = Math.min(Math.max(y + (Math.random() - 0.5) * 6, 0), DRAWING_HEIGHT - 1);
+    canvas.drawLine(x, y, nextX, nextY, 3, color);
+    x = nextX;
+    y = nextY;
+  }
+
+  return canvas.toImage();
+};
@@ -0,0 +1,63 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Chain, ChainEntry, GameRoom } from './models';
+import { pickSecretWords } from './modes';
+
+// Shuffle the players into a turn order and create one chain per player,
+// starting with a secret word in secret word games
+export const createChains = (room: GameRoom): void => {
+  const turnOrder = room.players.map(p => p.id);
+  for (let i = turnOrder.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [turnOrder[i], turnOrder[j]] = [turnOrder[j], turnOrder[i]];
+  }
+
+  const words = room.settings.mode === 'secret-word' ? pickSecretWords(turnOrder.length) : [];
+
+  room.turnOrder = turnOrder;
+  room.chains = turnOrder.map((ownerId, index) => ({
+    id: uuidv4(),
+    ownerId,
+    entries: words[index] ? [{ type: 'word', playerId: ownerId, content: words[index], round: 0 }] : []
+  }));
+};
+
+// Index of the current step in the game, every round is one step
+export const getCurrentStep = (room: GameRoom): number => {
+  return room.currentRound - 1;
+};
+
+// Get the chain a player has to work on during the current step
+export const getAssignedChain = (room: GameRoom, playerId: string): Chain | null => {
+  const playerIndex = room.turnOrder.indexOf(playerId);
+  if (playerIndex === -1 || room.chains.length === 0) return null;
+
+  // Every step, each chain moves on to the next player in the turn order
+  const count = room.chains.length;
+  const step = getCurrentStep(room) % count;
+  return room.chains[(playerIndex - step + count) % count];
+};
+
+// Get the entry a player has to respond to (null on the very first step), leaving out what they
+// already submitted this round
+export const getPromptFor = (room: GameRoom, playerId: string): ChainEntry | null => {
+  const chain = getAssignedChain(room, playerId);
+  const earlier = chain ? chain.entries.filter(e => e.round < room.currentRound) : [];
+  return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+};
+
+// Take back a player's entry for the current round from the chain they are working on
+export const removeChainEntry = (room: GameRoom, playerId: string): void => {
+  const chain = getAssignedChain(room, playerId);
+  if (!chain) return;
+
+  chain.entries = chain.entries.filter(e => e.playerId !== playerId || e.round !== room.currentRound);
+};
+
+// Append a player's submission to the chain they are working on
+export const addChainEntry = (room: GameRoom, entry: ChainEntry): Chain | null => {
+  const chain = getAssignedChain(room, entry.playerId);
+  if (!chain) return null;
+
+  chain.entries.push(entry);
+  return chain;
+};
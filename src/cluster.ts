@@ -0,0 +1,132 @@
+import Redis from 'ioredis';
+import { Namespace } from 'socket.io';
+import {
+  ClusterAdapterOptions,
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  Offset,
+  ServerId
+} from 'socket.io-adapter';
+import { logger } from './logger';
+
+type MessageHandler = (message: unknown) => void;
+
+// Transport used by server instances to exchange messages
+export interface PubSub {
+  publish(channel: string, message: unknown): Promise<void>;
+  subscribe(channel: string, handler: MessageHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+// In-process broker, every client created from it acts as a separate instance
+export class MemoryBroker {
+  private handlers: Map<string, Set<MessageHandler>> = new Map();
+
+  createClient(): PubSub {
+    const subscriptions: Array<[string, MessageHandler]> = [];
+
+    return {
+      publish: async (channel, message) => {
+        // Deliver asynchronously and as a copy, like a real broker would
+        const copy = JSON.parse(JSON.stringify(message, encodeBuffers), decodeBuffers);
+        this.handlers.get(channel)?.forEach(handler => setImmediate(() => handler(copy)));
+      },
+      subscribe: async (channel, handler) => {
+        if (!this.handlers.has(channel)) {
+          this.handlers.set(channel, new Set());
+        }
+        this.handlers.get(channel)?.add(handler);
+        subscriptions.push([channel, handler]);
+      },
+      close: async () => {
+        subscriptions.forEach(([channel, handler]) => this.handlers.get(channel)?.delete(handler));
+      }
+    };
+  }
+}
+
+// Redis-backed transport for instances running in separate processes
+export class RedisPubSub implements PubSub {
+  private publisher: Redis;
+  private subscriber: Redis;
+  private handlers: Map<string, MessageHandler> = new Map();
+
+  constructor(url: string) {
+    this.publisher = new Redis(url);
+    this.subscriber = new Redis(url);
+
+    this.subscriber.on('message', (channel: string, data: string) => {
+      try {
+        this.handlers.get(channel)?.(JSON.parse(data, decodeBuffers));
+      } catch (error) {
+        logger.error('Error handling cluster message', { error });
+      }
+    });
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    await this.publisher.publish(channel, JSON.stringify(message, encodeBuffers));
+  }
+
+  async subscribe(channel: string, handler: MessageHandler): Promise<void> {
+    this.handlers.set(channel, handler);
+    await this.subscriber.subscribe(channel);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+}
+
+// Socket.IO adapter relaying broadcasts, joins and leaves between instances
+export class PubSubAdapter extends ClusterAdapterWithHeartbeat {
+  private channel: string;
+
+  constructor(nsp: Namespace, private pubsub: PubSub, opts: ClusterAdapterOptions = {}) {
+    super(nsp, opts);
+    this.channel = `mnsphone#${nsp.name}#`;
+  }
+
+  async init(): Promise<void> {
+    await this.pubsub.subscribe(this.channel, message => {
+      this.onMessage(message as ClusterMessage);
+    });
+    await this.pubsub.subscribe(`${this.channel}${this.uid}#`, response => {
+      this.onResponse(response as ClusterResponse);
+    });
+    super.init();
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    await this.pubsub.publish(this.channel, message);
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    await this.pubsub.publish(`${this.channel}${requesterUid}#`, response);
+  }
+}
+
+// Adapter factory for the Socket.IO server's `adapter` option (Socket.IO calls it with `new`)
+export const createPubSubAdapter = (pubsub: PubSub, opts?: ClusterAdapterOptions) => {
+  return function (nsp: Namespace) {
+    return new PubSubAdapter(nsp, pubsub, opts);
+  };
+};
+
+// Keep binary attachments intact through JSON
+const encodeBuffers = (key: string, value: unknown): unknown => {
+  if (value && typeof value === 'object' && (value as { type?: string }).type === 'Buffer') {
+    return { type: 'Buffer', base64: Buffer.from((value as { data: number[] }).data).toString('base64') };
+  }
+  return value;
+};
+
+const decodeBuffers = (key: string, value: unknown): unknown => {
+  if (value && typeof value === 'object' && (value as { type?: string }).type === 'Buffer') {
+    return Buffer.from((value as { base64: string }).base64, 'base64');
+  }
+  return value;
+};
@@ -0,0 +1,439 @@
+// Socket event contract shared with the frontend
+import {
+  Awards,
+  Chain,
+  ChainEntry,
+  ClientRoom,
+  DrawingRecording,
+  GameMode,
+  GameState,
+  PhaseType,
+  PlayerSession,
+  PresentationMode,
+  RoomSettings,
+  RoomVisibility,
+  StepVotes,
+  Stroke,
+  SubmissionStatus,
+  VoteKind
+} from './models';
+
+export type {
+  Award,
+  Awards,
+  Chain,
+  ChainEntry,
+  ChainEntryType,
+  ClientPlayer,
+  ClientRoom,
+  ClientSpectator,
+  DrawingRecording,
+  GameMode,
+  GameState,
+  Invite,
+  ModerationAction,
+  ModerationEntry,
+  PhaseType,
+  PlayerSession,
+  PresentationMode,
+  RoomSettings,
+  RoomVisibility,
+  Spectator,
+  StepVotes,
+  Stroke,
+  StrokePoint,
+  SubmissionStatus,
+  VoteKind
+} from './models';
+
+// Machine-readable error codes sent with every `error` event
+export type ErrorCode =
+  | 'INVALID_PAYLOAD'
+  | 'UNKNOWN_EVENT'
+  | 'ROOM_NOT_FOUND'
+  | 'ROOM_LOCKED'
+  | 'GAME_IN_PROGRESS'
+  | 'NOT_HOST'
+  | 'NOT_ALL_READY'
+  | 'NOT_ENOUGH_PLAYERS'
+  | 'WRONG_PHASE'
+  | 'NOTHING_SUBMITTED'
+  | 'SETTINGS_LOCKED'
+  | 'INVALID_DRAWING'
+  | 'DRAWING_TOO_LARGE'
+  | 'CONTENT_REJECTED'
+  | 'SUBMISSION_NOT_FOUND'
+  | 'ROOM_FULL'
+  | 'PLAYER_NOT_FOUND'
+  | 'PLAYER_DISCONNECTED'
+  | 'SPECTATOR_NOT_FOUND'
+  | 'CANNOT_KICK_SELF'
+  | 'PRESENTATION_NOT_ACTIVE'
+  | 'RECORDING_NOT_FOUND'
+  | 'REPLAY_NOT_ACTIVE'
+  | 'NOT_IN_ROOM'
+  | 'SESSION_EXPIRED'
+  | 'WRONG_PASSWORD'
+  | 'INVALID_INVITE'
+  | 'INVITE_NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'TOO_MANY_ROOMS'
+  | 'INTERNAL_ERROR';
+
+export interface ErrorPayload {
+  code: ErrorCode;
+  message: string;
+  event?: string; // Client event that caused the error
+  retryAfter?: number; // Milliseconds to wait before trying again, sent with RATE_LIMITED
+}
+
+// Client to server payloads
+export interface CreateRoomPayload {
+  nickname: string;
+  profilePic: string;
+  visibility?: RoomVisibility; // Defaults to public
+  password?: string; // Required for password rooms
+}
+
+// Password rooms need either the password or an invite token
+export interface JoinRoomPayload {
+  roomCode: string;
+  nickname: string;
+  profilePic: string;
+  password?: string;
+  inviteToken?: string;
+}
+
+export interface SpectateRoomPayload {
+  roomCode: string;
+  nickname: string;
+  password?: string;
+  inviteToken?: string;
+}
+
+export interface RemoveSpectatorPayload {
+  spectatorId: string;
+}
+
+export interface RejoinRoomPayload {
+  reconnectToken: string;
+}
+
+// Submitting again in the same round replaces the earlier submission
+export interface SubmitSentencePayload {
+  text: string;
+  done?: boolean; // Defaults to true, false keeps the submission as a draft
+}
+
+// Needs the image, the recording or strokes streamed with `append-strokes` beforehand
+export interface SubmitDrawingPayload {
+  imageData?: string | ArrayBuffer | Uint8Array; // PNG, WebP or JPEG as a data URL or a binary attachment
+  recording?: DrawingRecording; // Replaces any streamed strokes, drawn by the server when there is no image
+  done?: boolean; // Defaults to true, false keeps the submission as a draft
+}
+
+// Strokes finished while drawing, sent as they are made
+export interface AppendStrokesPayload {
+  width: number; // Canvas size, a different size starts the recording over
+  height: number;
+  strokes: Stroke[];
+  reset?: boolean; // Drop the strokes sent so far, e.g. when the canvas is cleared
+}
+
+export interface SetDonePayload {
+  done: boolean;
+}
+
+export interface UpdateRoomSettingsPayload {
+  settings: {
+    mode?: GameMode;
+    firstPhase?: PhaseType;
+    maxPlayers?: number; // At least the number of players already in the room
+    maxRounds?: number;
+    roundsFromPlayers?: boolean;
+    writingDuration?: number;
+    drawingDuration?: number;
+    maxSpectators?: number;
+    visibility?: RoomVisibility;
+    password?: string; // Required when switching to a password room
+  };
+}
+
+export interface SettingsChangedPayload {
+  changes: Partial<RoomSettings>; // Only the settings that changed, with their new value
+}
+
+export interface CreateInvitePayload {
+  expiresIn?: number; // Seconds, defaults to a day
+}
+
+export interface RevokeInvitePayload {
+  inviteId: string;
+}
+
+export interface CastVotePayload {
+  chainIndex: number; // Must be the chain currently shown
+  entryIndex: number;
+  kind: VoteKind;
+}
+
+export interface ReplayDrawingPayload {
+  chainIndex: number; // Must be the chain currently shown
+  entryIndex: number;
+  speed?: number; // Defaults to 1, the pace the drawing was made at
+}
+
+export interface ControlReplayPayload {
+  action: ReplayAction;
+  speed?: number; // Required by `set-speed`
+}
+
+export type ReplayAction = 'pause' | 'resume' | 'stop' | 'set-speed';
+
+export interface KickPlayerPayload {
+  playerId: string;
+}
+
+// Reports a player's nickname, or one of their submissions when chainId and entryIndex are given
+export interface ReportPlayerPayload {
+  playerId: string;
+  reason: string;
+  chainId?: string;
+  entryIndex?: number;
+}
+
+export interface HideSubmissionPayload {
+  chainId: string;
+  entryIndex: number;
+  hidden: boolean;
+}
+
+export interface ReportReceivedPayload {
+  reportId: string;
+}
+
+export interface TransferHostPayload {
+  playerId: string; // Must be connected
+}
+
+export interface SetCoHostPayload {
+  playerId: string;
+  coHost: boolean;
+}
+
+// Server to client payloads
+export type RoomSessionPayload = ClientRoom & PlayerSession;
+
+export interface PromptPayload {
+  phase: GameState;
+  round: number;
+  chainId: string;
+  prompt: ChainEntry | null; // Null on the first step, when there is nothing to respond to
+}
+
+export interface RoomRejoinedPayload {
+  room: ClientRoom;
+  playerId: string;
+  prompt: PromptPayload | null; // Null when the player has nothing left to submit
+}
+
+export interface SpectatingPayload {
+  room: ClientRoom; // Submissions are left out until the results phase
+  spectatorId: string;
+}
+
+export interface SubmissionCountPayload {
+  submitted: number;
+  total: number;
+}
+
+export interface SubmissionStatusPayload {
+  round: number;
+  statuses: Record<string, SubmissionStatus>; // Keyed by player ID, for the players of the current phase
+}
+
+export interface PlayerJoinedPayload {
+  playerId: string;
+  nickname: string;
+  profilePic: string;
+}
+
+export interface PlayerPayload {
+  playerId: string;
+}
+
+// One change to a room, the path holds keys and array indexes from the room's root
+export type RoomPatchOperation =
+  | { op: 'set'; path: Array<string | number>; value: unknown }
+  | { op: 'delete'; path: Array<string | number> };
+
+export interface RoomPatchPayload {
+  revision: number; // Revision the room is at once the operations are applied, always the previous one plus one
+  operations: RoomPatchOperation[];
+}
+
+export interface PhaseChangedPayload {
+  phase: GameState;
+  deadline: number | null; // Timestamp (ms) when the phase ends
+  chains?: Chain[]; // Finished chains, sent with the results phase
+}
+
+export interface HostChangedPayload {
+  hostId: string;
+  previousHostId: string;
+  reason: 'transferred' | 'left' | 'disconnected'; // Handed over by the host, or the host left or lost connection
+}
+
+export interface GameEndedPayload {
+  reason: 'not-enough-players';
+  message: string;
+}
+
+export interface ReplayStartedPayload {
+  replayId: string;
+  chainId: string;
+  entryIndex: number;
+  width: number; // Canvas size the points refer to
+  height: number;
+  duration: number; // Milliseconds at normal speed
+  speed: number;
+  strokes: Array<Omit<Stroke, 'points'>>; // Colour and width of every stroke, frames refer to them by index
+}
+
+export interface ReplayFramePayload {
+  replayId: string;
+  position: number; // Milliseconds into the recording
+  points: Array<[number, number, number]>; // Stroke index, x and y of every point reached since the last frame
+}
+
+export interface ReplayStatePayload {
+  replayId: string;
+  paused: boolean;
+  speed: number;
+  position: number;
+}
+
+export interface ReplayEndedPayload {
+  replayId: string;
+  stopped: boolean; // Cut short rather than played to the end
+}
+
+export interface RoomLockChangedPayload {
+  roomCode: string;
+  locked: boolean;
+}
+
+export interface InviteCreatedPayload {
+  inviteId: string;
+  token: string; // Signed token to share, passed as `inviteToken` when joining
+  expiresAt: number; // Timestamp (ms)
+}
+
+export interface RoomClosedPayload {
+  roomCode: string;
+  message: string; // Why the room was closed
+}
+
+export interface RoomExpiringPayload {
+  roomCode: string;
+  reason: 'idle' | 'max-age';
+  closesAt: number; // Timestamp (ms) when the room will be closed
+}
+
+export interface ServerNoticePayload {
+  message: string;
+}
+
+export interface ActiveRoom {
+  code: string;
+  playerCount: number;
+  locked: boolean;
+}
+
+export interface ClientToServerEvents {
+  'create-room': (payload: CreateRoomPayload) => void;
+  'join-room': (payload: JoinRoomPayload) => void;
+  'rejoin-room': (payload: RejoinRoomPayload) => void;
+  'spectate-room': (payload: SpectateRoomPayload) => void;
+  'remove-spectator': (payload: RemoveSpectatorPayload) => void;
+  'leave-room': () => void;
+  'toggle-ready': () => void;
+  'start-game': () => void;
+  'submit-sentence': (payload: SubmitSentencePayload) => void;
+  'submit-drawing': (payload: SubmitDrawingPayload) => void;
+  'append-strokes': (payload: AppendStrokesPayload) => void;
+  'withdraw-submission': () => void;
+  'set-done': (payload: SetDonePayload) => void;
+  'update-room-settings': (payload: UpdateRoomSettingsPayload) => void;
+  'add-bot': () => void;
+  'kick-player': (payload: KickPlayerPayload) => void; // Also removes bots
+  'report-player': (payload: ReportPlayerPayload) => void;
+  'hide-submission': (payload: HideSubmissionPayload) => void;
+  'transfer-host': (payload: TransferHostPayload) => void;
+  'set-co-host': (payload: SetCoHostPayload) => void;
+  'toggle-room-lock': () => void;
+  'create-invite': (payload: CreateInvitePayload) => void;
+  'revoke-invite': (payload: RevokeInvitePayload) => void;
+  'start-presentation': () => void;
+  'show-result': (index: number) => void;
+  'end-presentation': () => void;
+  'replay-drawing': (payload: ReplayDrawingPayload) => void;
+  'control-replay': (payload: ControlReplayPayload) => void;
+  'cast-vote': (payload: CastVotePayload) => void;
+  'reset-game': () => void;
+  'get-active-rooms': () => void;
+  'sync-room': () => void;
+}
+
+export interface ServerToClientEvents {
+  'room-created': (payload: RoomSessionPayload) => void;
+  'room-joined': (payload: RoomSessionPayload) => void;
+  'room-rejoined': (payload: RoomRejoinedPayload) => void;
+  'spectating': (payload: SpectatingPayload) => void;
+  'spectator-removed': () => void;
+  'room-updated': (room: ClientRoom) => void; // Full snapshot, sent on request or when patches cannot be used
+  'room-patch': (payload: RoomPatchPayload) => void;
+  'room-lock-changed': (payload: RoomLockChangedPayload) => void;
+  'settings-changed': (payload: SettingsChangedPayload) => void;
+  'invite-created': (payload: InviteCreatedPayload) => void;
+  'player-joined': (payload: PlayerJoinedPayload) => void;
+  'player-left': (payload: PlayerPayload) => void;
+  'player-disconnected': (payload: PlayerPayload) => void;
+  'player-reconnected': (payload: PlayerPayload) => void;
+  'player-kicked': () => void;
+  'report-received': (payload: ReportReceivedPayload) => void;
+  'host-changed': (payload: HostChangedPayload) => void;
+  'room-expiring': (payload: RoomExpiringPayload) => void; // Any change to an idle room keeps it open
+  'room-closed': (payload: RoomClosedPayload) => void;
+  'server-notice': (payload: ServerNoticePayload) => void;
+  'game-started': (room: ClientRoom) => void;
+  'phase-changed': (payload: PhaseChangedPayload) => void;
+  'game-ended': (payload: GameEndedPayload) => void; // The game was cut short, the results phase follows
+  'your-prompt': (payload: PromptPayload) => void;
+  'submission-count': (payload: SubmissionCountPayload) => void;
+  'submission-status': (payload: SubmissionStatusPayload) => void;
+  'presentation-started': (presentation: PresentationMode) => void;
+  'result-changed': (presentation: PresentationMode) => void;
+  'presentation-ended': () => void;
+  'replay-started': (payload: ReplayStartedPayload) => void;
+  'replay-frame': (payload: ReplayFramePayload) => void;
+  'replay-state': (payload: ReplayStatePayload) => void;
+  'replay-ended': (payload: ReplayEndedPayload) => void;
+  'votes-updated': (votes: StepVotes) => void;
+  'awards': (awards: Awards) => void;
+  'game-reset': () => void;
+  'active-rooms': (rooms: ActiveRoom[]) => void;
+  'error': (error: ErrorPayload) => void;
+}
+
+// Events exchanged between server instances, besides the adapter's own. A replay runs on the
+// instance that started it, the others relay controls to it.
+export interface InterServerEvents {
+  'control-replay': (payload: ControlReplayPayload & { roomId: string }, callback: (handled: boolean) => void) => void;
+}
+
+export interface SocketData {
+  playerId?: string; // Player bound to the socket, set on create, join and rejoin
+  spectatorId?: string; // Spectator bound to the socket, set on spectate
+  roomId?: string; // Room being spectated
+}
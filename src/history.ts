@@ -0,0 +1,161 @@
+import { Router } from 'express';
+import { GameArchive } from './models';
+import { ArchiveStore } from './archive';
+import { isValidToken } from './access';
+import { ImageStore, isImageId } from './images';
+import { createZip, ZipFile } from './zip';
+import { logger } from './logger';
+
+// Image types of drawings saved as data URLs, before drawings were stored by ID
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+// Load a drawing's image file, from the image store or from a legacy data URL
+const loadImage = async (images: ImageStore, content: string): Promise<{ extension: string; data: Buffer } | null> => {
+  if (isImageId(content)) {
+    const data = await images.get(content);
+    return data && { extension: content.split('.')[1], data };
+  }
+
+  const match = /^data:(image\/[a-z]+);base64,(.*)$/s.exec(content);
+  if (match) {
+    return { extension: IMAGE_EXTENSIONS[match[1]] || 'png', data: Buffer.from(match[2], 'base64') };
+  }
+  return { extension: 'png', data: Buffer.from(content, 'base64') };
+};
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Copy of a game without the content of submissions the host hid from the presentation
+const hideSubmissions = (archive: GameArchive): GameArchive => ({
+  ...archive,
+  chains: archive.chains.map(chain => ({
+    ...chain,
+    entries: chain.entries.map(entry => (entry.hidden ? { ...entry, content: '' } : entry))
+  }))
+});
+
+// Build the gallery files of a game: an index page and one image file per drawing
+const buildGallery = async (archive: GameArchive, images: ImageStore): Promise<ZipFile[]> => {
+  const nicknames = new Map(archive.players.map(p => [p.id, p.nickname]));
+  const nickname = (playerId: string) => escapeHtml(nicknames.get(playerId) || 'Unknown player');
+  const imageFiles: ZipFile[] = [];
+
+  const chains = await Promise.all(archive.chains.map(async (chain, chainIndex) => {
+    const steps = await Promise.all(chain.entries.map(async (entry, entryIndex) => {
+      if (entry.hidden) {
+        return `<li><p>(hidden by the host)</p><span>${nickname(entry.playerId)}</span></li>`;
+      }
+      if (entry.type === 'word') {
+        return `<li><p class="sentence">${escapeHtml(entry.content)}</p><span>Secret word</span></li>`;
+      }
+      if (entry.type === 'sentence') {
+        return `<li><p class="sentence">${escapeHtml(entry.content)}</p><span>${nickname(entry.playerId)}</span></li>`;
+      }
+
+      const image = await loadImage(images, entry.content);
+      if (!image) {
+        return `<li><p>(missing drawing)</p><span>${nickname(entry.playerId)}</span></li>`;
+      }
+
+      const name = `images/chain-${chainIndex + 1}-step-${entryIndex + 1}.${image.extension}`;
+      imageFiles.push({ name, data: image.data });
+      return `<li><img src="${name}" alt="Drawing by ${nickname(entry.playerId)}"><span>${nickname(entry.playerId)}</span></li>`;
+    }));
+
+    return `<section><h2>${nickname(chain.ownerId)}'s chain</h2><ol>${steps.join('')}</ol></section>`;
+  }));
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>MNSphone game ${escapeHtml(archive.roomCode)}</title>
+<style>
+body { font-family: sans-serif; max-width: 720px; margin: 0 auto; padding: 1rem; }
+ol { list-style: none; padding: 0; }
+li { margin: 1rem 0; }
+li span { color: #666; font-size: 0.9rem; }
+img { max-width: 100%; border: 1px solid #ddd; background: #fff; }
+.sentence { font-size: 1.25rem; margin: 0; }
+</style>
+</head>
+<body>
+<h1>Room ${escapeHtml(archive.roomCode)}</h1>
+<p>Played ${archive.finishedAt.toISOString()} by ${archive.players.map(p => escapeHtml(p.nickname)).join(', ')}</p>
+${chains.join('\n')}
+</body>
+</html>
+`;
+
+  return [{ name: 'index.html', data: Buffer.from(html) }, ...imageFiles];
+};
+
+// HTTP routes to browse and download finished games
+export const createHistoryRouter = (archives: ArchiveStore, images: ImageStore): Router => {
+  const router = Router();
+
+  // List the games played in a room, by its ID since codes are reused once a room closes
+  router.get('/rooms/:roomId/games', async (req, res) => {
+    try {
+      const games = await archives.listByRoom(req.params.roomId);
+
+      res.status(200).json({
+        status: 'ok',
+        games: games.map(game => ({
+          id: game.id,
+          roomCode: game.roomCode,
+          startedAt: game.startedAt,
+          finishedAt: game.finishedAt,
+          players: game.players.map(p => p.nickname),
+          chainCount: game.chains.length
+        }))
+      });
+    } catch (error) {
+      logger.error('Error listing games', { error });
+      res.status(500).json({ status: 'error', message: 'Failed to list games' });
+    }
+  });
+
+  // Download a game as JSON (default) or as a ZIP gallery (?format=zip), with the token given to the room
+  router.get('/rooms/:roomId/games/:gameId/download', async (req, res) => {
+    try {
+      const stored = await archives.get(req.params.roomId, req.params.gameId);
+      const archive = stored && hideSubmissions(stored);
+      const token = typeof req.query.token === 'string' ? req.query.token : '';
+      // Games archived before download tokens have none and cannot be downloaded
+      if (!archive || !archive.downloadToken || !isValidToken(token, archive.downloadToken)) {
+        return res.status(404).json({ status: 'error', message: 'Game not found' });
+      }
+      const { downloadToken, ...game } = archive;
+
+      const fileName = `mnsphone-${game.roomCode}-${game.finishedAt.toISOString().slice(0, 10)}`;
+
+      if (req.query.format === 'zip') {
+        const zip = createZip([
+          ...(await buildGallery(archive, images)),
+          { name: 'game.json', data: Buffer.from(JSON.stringify(game, null, 2)) }
+        ]);
+        res.attachment(`${fileName}.zip`);
+        return res.status(200).send(zip);
+      }
+
+      res.attachment(`${fileName}.json`);
+      res.status(200).json(game);
+    } catch (error) {
+      logger.error('Error downloading game', { error });
+      res.status(500).json({ status: 'error', message: 'Failed to download game' });
+    }
+  });
+
+  return router;
+};
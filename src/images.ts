@@ -0,0 +1,318 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Redis from 'ioredis';
+import { Router } from 'express';
+import { ErrorPayload } from './events';
+import { logger } from './logger';
+
+export type ImageType = 'png' | 'jpeg' | 'webp';
+
+export interface DecodedImage {
+  type: ImageType;
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface DrawingLimits {
+  maxBytes: number; // Size of the decoded image file
+  maxPixels: number; // Width times height
+}
+
+const EXTENSIONS: Record<ImageType, string> = { png: 'png', jpeg: 'jpg', webp: 'webp' };
+const MIME_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', webp: 'image/webp' };
+
+// Image IDs are the SHA-256 of the file followed by its extension
+const IMAGE_ID_PATTERN = /^[0-9a-f]{64}\.(png|jpg|webp)$/;
+
+// JPEG start-of-frame markers, which carry the image size
+const JPEG_FRAME_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+type ImageInfo = Omit<DecodedImage, 'data'>;
+
+const readPngInfo = (data: Buffer): ImageInfo | null => {
+  if (!data.subarray(0, 8).equals(PNG_SIGNATURE) || data.toString('ascii', 12, 16) !== 'IHDR') return null;
+  return { type: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+};
+
+const readJpegInfo = (data: Buffer): ImageInfo | null => {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return null;
+
+  // Walk the segments until the frame header
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) return null;
+
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset += 1; // Fill byte
+    } else if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2; // Markers without a length
+    } else if (JPEG_FRAME_MARKERS.has(marker)) {
+      return { type: 'jpeg', width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    } else {
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+};
+
+const readWebpInfo = (data: Buffer): ImageInfo | null => {
+  if (data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WEBP') return null;
+
+  switch (data.toString('ascii', 12, 16)) {
+    case 'VP8 ': // Lossy
+      return { type: 'webp', width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': { // Lossless, sizes are packed into 14-bit fields
+      const bits = data.readUInt32LE(21);
+      return { type: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X': // Extended
+      return { type: 'webp', width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    default:
+      return null;
+  }
+};
+
+// Identify a PNG, JPEG or WebP file from its headers
+export const readImageInfo = (data: Buffer): ImageInfo | null => {
+  try {
+    return readPngInfo(data) || readJpegInfo(data) || readWebpInfo(data);
+  } catch {
+    // Truncated headers
+    return null;
+  }
+};
+
+// Decode a submitted drawing, sent as a data URL, base64 or a binary attachment, and check it
+export const decodeDrawing = (
+  input: string | ArrayBuffer | Uint8Array,
+  limits: DrawingLimits
+): { image: DecodedImage } | { error: ErrorPayload } => {
+  let data: Buffer;
+  let declaredType: string | null = null;
+
+  if (typeof input === 'string') {
+    const match = /^data:([^;,]+);base64,/.exec(input);
+    declaredType = match ? match[1] : null;
+    data = Buffer.from(match ? input.slice(match[0].length) : input, 'base64');
+  } else {
+    data = Buffer.from(input instanceof ArrayBuffer ? new Uint8Array(input) : input);
+  }
+
+  if (data.length > limits.maxBytes) {
+    return { error: { code: 'DRAWING_TOO_LARGE', message: `Drawings must be at most ${limits.maxBytes} bytes` } };
+  }
+
+  const info = readImageInfo(data);
+  if (!info || info.width === 0 || info.height === 0) {
+    return { error: { code: 'INVALID_DRAWING', message: 'Drawings must be PNG, WebP or JPEG images' } };
+  }
+  if (declaredType && declaredType !== `image/${info.type}`) {
+    return { error: { code: 'INVALID_DRAWING', message: `Drawing is not the declared ${declaredType} image` } };
+  }
+  if (info.width * info.height > limits.maxPixels) {
+    return { error: { code: 'DRAWING_TOO_LARGE', message: `Drawings must be at most ${limits.maxPixels} pixels` } };
+  }
+
+  return { image: { ...info, data } };
+};
+
+// Content-addressed ID of an image, identical images share one ID
+export const getImageId = (data: Buffer, type: ImageType): string => {
+  return `${crypto.createHash('sha256').update(data).digest('hex')}.${EXTENSIONS[type]}`;
+};
+
+export const isImageId = (value: string): boolean => IMAGE_ID_PATTERN.test(value);
+
+// MIME type of a stored image, from the extension in its ID
+export const getImageMimeType = (imageId: string): string => MIME_TYPES[path.extname(imageId).slice(1)];
+
+// Storage backend for drawings, keyed by image ID. Identical images are stored once, so every
+// room drawing and archived game holding an image counts as a reference, and the image is deleted
+// when the last one is released.
+export interface ImageStore {
+  save(image: DecodedImage): Promise<string>; // Adds a reference
+  get(imageId: string): Promise<Buffer | null>;
+  retain(imageId: string): Promise<void>; // Adds a reference to an image already stored
+  release(imageId: string): Promise<void>;
+}
+
+// Keeps images in process memory, lost on restart
+export class MemoryImageStore implements ImageStore {
+  private images: Map<string, { data: Buffer; references: number }> = new Map();
+
+  async save(image: DecodedImage): Promise<string> {
+    const imageId = getImageId(image.data, image.type);
+    const references = this.images.get(imageId)?.references || 0;
+    this.images.set(imageId, { data: image.data, references: references + 1 });
+    return imageId;
+  }
+
+  async get(imageId: string): Promise<Buffer | null> {
+    return this.images.get(imageId)?.data || null;
+  }
+
+  async retain(imageId: string): Promise<void> {
+    const stored = this.images.get(imageId);
+    if (stored) stored.references += 1;
+  }
+
+  async release(imageId: string): Promise<void> {
+    const stored = this.images.get(imageId);
+    if (!stored) return;
+
+    stored.references -= 1;
+    if (stored.references <= 0) this.images.delete(imageId);
+  }
+}
+
+// Writes every image to its own file in a directory, with its reference count in a file next to it
+// so that it survives restarts like the rooms and games holding the image
+export class FileImageStore implements ImageStore {
+  private changes: Promise<unknown> = Promise.resolve(); // Writes and deletions, one at a time
+
+  constructor(private directory: string) {}
+
+  async save(image: DecodedImage): Promise<string> {
+    const imageId = getImageId(image.data, image.type);
+    const filePath = path.join(this.directory, imageId);
+
+    await this.serialize(async () => {
+      if (!fs.existsSync(filePath)) {
+        // Write to a temporary file first so a crash never leaves a truncated image
+        const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.writeFile(tempPath, image.data);
+        await fs.promises.rename(tempPath, filePath);
+        await fs.promises.writeFile(this.countPath(imageId), '0');
+      }
+      await this.addReferences(imageId, 1);
+    });
+    return imageId;
+  }
+
+  async retain(imageId: string): Promise<void> {
+    if (!isImageId(imageId)) return;
+    await this.serialize(() => this.addReferences(imageId, 1));
+  }
+
+  async release(imageId: string): Promise<void> {
+    if (!isImageId(imageId)) return;
+    await this.serialize(() => this.addReferences(imageId, -1));
+  }
+
+  async get(imageId: string): Promise<Buffer | null> {
+    // Anything but an image ID could escape the directory
+    if (!isImageId(imageId)) return null;
+
+    try {
+      return await fs.promises.readFile(path.join(this.directory, imageId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private serialize(change: () => Promise<void>): Promise<void> {
+    const result = this.changes.then(change);
+    this.changes = result.catch(() => undefined);
+    return result;
+  }
+
+  // Images saved before reference counting have no count file and are kept
+  private async addReferences(imageId: string, change: number): Promise<void> {
+    const countPath = this.countPath(imageId);
+    let references: number;
+    try {
+      references = Number(await fs.promises.readFile(countPath, 'utf8')) + change;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    if (references > 0) {
+      await fs.promises.writeFile(countPath, String(references));
+      return;
+    }
+    await fs.promises.rm(path.join(this.directory, imageId), { force: true });
+    await fs.promises.rm(countPath, { force: true });
+  }
+
+  private countPath(imageId: string): string {
+    return path.join(this.directory, `${imageId}.refs`);
+  }
+}
+
+// Store the image and count the reference in one step, so a concurrent release cannot delete it in between
+const SAVE_SCRIPT = `
+redis.call('SET', KEYS[1], ARGV[1])
+redis.call('INCR', KEYS[2])
+`;
+
+// Images saved before reference counting have no count and are kept
+const RETAIN_SCRIPT = `
+if redis.call('EXISTS', KEYS[2]) == 1 then redis.call('INCR', KEYS[2]) end
+`;
+
+const RELEASE_SCRIPT = `
+if redis.call('EXISTS', KEYS[2]) == 0 then return end
+if redis.call('DECR', KEYS[2]) <= 0 then redis.call('DEL', KEYS[1], KEYS[2]) end
+`;
+
+// Keeps images in Redis so that several server instances can serve them
+export class RedisImageStore implements ImageStore {
+  private redis: Redis;
+
+  constructor(url: string, private prefix = 'mnsphone:image:') {
+    this.redis = new Redis(url);
+  }
+
+  async save(image: DecodedImage): Promise<string> {
+    const imageId = getImageId(image.data, image.type);
+    await this.redis.eval(SAVE_SCRIPT, 2, this.prefix + imageId, this.countKey(imageId), image.data);
+    return imageId;
+  }
+
+  async get(imageId: string): Promise<Buffer | null> {
+    return this.redis.getBuffer(this.prefix + imageId);
+  }
+
+  async retain(imageId: string): Promise<void> {
+    await this.redis.eval(RETAIN_SCRIPT, 2, this.prefix + imageId, this.countKey(imageId));
+  }
+
+  async release(imageId: string): Promise<void> {
+    await this.redis.eval(RELEASE_SCRIPT, 2, this.prefix + imageId, this.countKey(imageId));
+  }
+
+  private countKey(imageId: string): string {
+    return `${this.prefix}${imageId}:references`;
+  }
+}
+
+// HTTP route serving stored drawings
+export const createImageRouter = (images: ImageStore): Router => {
+  const router = Router();
+
+  router.get('/images/:imageId', async (req, res) => {
+    try {
+      const data = isImageId(req.params.imageId) ? await images.get(req.params.imageId) : null;
+      if (!data) {
+        return res.status(404).json({ status: 'error', message: 'Image not found' });
+      }
+
+      // The ID is the hash of the content, so it never changes
+      res.set('Cache-Control', 'public, max-age=31536000, immutable');
+      res.type(getImageMimeType(req.params.imageId)).status(200).send(data);
+    } catch (error) {
+      logger.error('Error fetching image', { error });
+      res.status(500).json({ status: 'error', message: 'Failed to fetch image' });
+    }
+  });
+
+  return router;
+};
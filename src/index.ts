@@ -1,15 +1,83 @@
+import crypto from 'crypto';
 import express from 'express';
 import http from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { initializeSocketEvents } from './socket';
+import { initializeSocketEvents, Server } from './socket';
+import { FileRoomStore, MemoryRoomStore, RedisRoomStore, RoomStore } from './store';
+import { createPubSubAdapter, RedisPubSub } from './cluster';
+import { ArchiveStore, FileArchiveStore, MemoryArchiveStore } from './archive';
+import { createHistoryRouter } from './history';
+import { createAdminRouter } from './admin';
+import { RoomSweeper } from './sweeper';
+import { RateLimiter } from './ratelimit';
+import { LOG_LEVELS, LogLevel, logger } from './logger';
+import { createMetricsRouter, Metrics } from './metrics';
+import { FILTER_ACTIONS, FilterAction, loadWordList, TextModerator } from './moderation';
+import { createImageRouter, FileImageStore, ImageStore, MemoryImageStore, RedisImageStore } from './images';
+import { loadWebhookEndpoints, WebhookDispatcher } from './webhooks';
 
 // Load environment variables
 dotenv.config();
 
 const PORT = process.env.PORT || 3001;
+const LOG_LEVEL = (process.env.LOG_LEVEL || 'info') as LogLevel;
 const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || 'http://localhost:3000,https://mnsphone.vercel.app').split(',');
+const RECONNECT_GRACE_PERIOD = Number(process.env.RECONNECT_GRACE_PERIOD) || 30000;
+const BOT_DELAY = Number(process.env.BOT_DELAY) || 8000;
+const ROOM_STORE = process.env.ROOM_STORE || 'memory';
+const ROOM_STORE_PATH = process.env.ROOM_STORE_PATH || './data/rooms.json';
+const REDIS_URL = process.env.REDIS_URL;
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const METRICS_TOKEN = process.env.METRICS_TOKEN || ADMIN_TOKEN;
+const ROOM_IDLE_TIMEOUT = Number(process.env.ROOM_IDLE_TIMEOUT) || 30 * 60 * 1000;
+const ROOM_MAX_AGE = Number(process.env.ROOM_MAX_AGE) || 6 * 60 * 60 * 1000;
+const ROOM_EXPIRY_WARNING = Number(process.env.ROOM_EXPIRY_WARNING) || 60 * 1000;
+const ROOM_SWEEP_INTERVAL = Number(process.env.ROOM_SWEEP_INTERVAL) || 30 * 1000;
+const MAX_ROOMS_PER_CLIENT = Number(process.env.MAX_ROOMS_PER_CLIENT) || 3;
+const RATE_LIMIT_BAN_THRESHOLD = Number(process.env.RATE_LIMIT_BAN_THRESHOLD) || 20;
+const RATE_LIMIT_BAN_DURATION = Number(process.env.RATE_LIMIT_BAN_DURATION) || 10 * 60 * 1000;
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+// Without a configured secret, invites stop working on restart and are not shared between instances
+const INVITE_SECRET = process.env.INVITE_SECRET || crypto.randomBytes(32).toString('hex');
+const ARCHIVE_STORE = process.env.ARCHIVE_STORE || 'memory';
+const ARCHIVE_PATH = process.env.ARCHIVE_PATH || './data/games';
+const ARCHIVE_MAX_GAMES = Number(process.env.ARCHIVE_MAX_GAMES) || 500;
+const IMAGE_STORE_PATH = process.env.IMAGE_STORE_PATH || './data/images';
+// One blocked word per line, matched as whole words regardless of case
+const BLOCKED_WORDS_FILE = process.env.BLOCKED_WORDS_FILE;
+const MODERATION_ACTION = (process.env.MODERATION_ACTION || 'mask') as FilterAction;
+const MAX_DRAWING_BYTES = Number(process.env.MAX_DRAWING_BYTES) || 2 * 1024 * 1024;
+const MAX_DRAWING_PIXELS = Number(process.env.MAX_DRAWING_PIXELS) || 2048 * 2048;
+// JSON array of `{ url, secret, events? }`, one entry per endpoint
+const WEBHOOKS_FILE = process.env.WEBHOOKS_FILE;
+const WEBHOOK_QUEUE_SIZE = Number(process.env.WEBHOOK_QUEUE_SIZE) || 1000;
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5;
+const WEBHOOK_RETRY_DELAY = Number(process.env.WEBHOOK_RETRY_DELAY) || 1000;
+const WEBHOOK_TIMEOUT = Number(process.env.WEBHOOK_TIMEOUT) || 5000;
+// Base64 data URLs are a third bigger than the image they carry
+const MAX_HTTP_BUFFER_SIZE = Number(process.env.MAX_HTTP_BUFFER_SIZE) || Math.ceil(MAX_DRAWING_BYTES * 4 / 3) + 64 * 1024;
+
+logger.setLevel(LOG_LEVELS.includes(LOG_LEVEL) ? LOG_LEVEL : 'info');
+
+// Counters and timings served on /metrics
+const metrics = new Metrics();
+
+// Create the room store, shared through Redis when running several instances
+const store: RoomStore = REDIS_URL
+  ? new RedisRoomStore(REDIS_URL)
+  : ROOM_STORE === 'file' ? new FileRoomStore(ROOM_STORE_PATH) : new MemoryRoomStore();
+
+// Drawings are kept on disk as soon as rooms or finished games are, so they survive a restart along with them
+const images: ImageStore = REDIS_URL
+  ? new RedisImageStore(REDIS_URL)
+  : ROOM_STORE === 'file' || ARCHIVE_STORE === 'file' ? new FileImageStore(IMAGE_STORE_PATH) : new MemoryImageStore();
+
+// Create the store for finished games
+const archives: ArchiveStore = ARCHIVE_STORE === 'file'
+  ? new FileArchiveStore(ARCHIVE_PATH, ARCHIVE_MAX_GAMES, images)
+  : new MemoryArchiveStore(ARCHIVE_MAX_GAMES, images);
 
 // Create Express app
 const app = express();
@@ -25,7 +93,7 @@ app.use(cors({
 const server = http.createServer(app);
 
 // Create Socket.IO server
-const io = new SocketIOServer(server, {
+const io: Server = new SocketIOServer(server, {
   cors: {
     origin: ALLOWED_ORIGINS,
     methods: ['GET', 'POST'],
@@ -35,7 +103,9 @@ const io = new SocketIOServer(server, {
   pingTimeout: 30000,
   pingInterval: 10000,
   upgradeTimeout: 15000,
-  maxHttpBufferSize: 1e6 // 1MB
+  maxHttpBufferSize: MAX_HTTP_BUFFER_SIZE,
+  // Relay broadcasts between instances in cluster mode
+  ...(REDIS_URL && { adapter: createPubSubAdapter(new RedisPubSub(REDIS_URL)) })
 });
 
 // Health check endpoint
@@ -48,28 +118,88 @@ app.get('/', (req, res) => {
   });
 });
 
-// Debug endpoint to check active connections
-app.get('/status', (req, res) => {
-  const connections = Array.from(io.sockets.sockets.values()).map(socket => ({
-    id: socket.id,
-    connected: socket.connected
-  }));
+// Debug endpoint to check active connections across all instances
+app.get('/status', async (req, res) => {
+  try {
+    const connections = (await io.fetchSockets()).map(socket => ({
+      id: socket.id,
+      connected: true
+    }));
 
-  res.status(200).json({
-    status: 'ok',
-    connections: {
-      count: connections.length,
-      sockets: connections
-    },
-    timestamp: new Date().toISOString()
-  });
+    res.status(200).json({
+      status: 'ok',
+      connections: {
+        count: connections.length,
+        sockets: connections
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Error fetching connections', { error });
+    res.status(500).json({ status: 'error', message: 'Failed to fetch connections' });
+  }
 });
 
+// Prometheus metrics, with the gauges read at scrape time, only available when a token is configured
+if (METRICS_TOKEN) {
+  app.use(createMetricsRouter(metrics, METRICS_TOKEN, async () => {
+    metrics.activeRooms.set((await store.list()).length);
+    metrics.connectedSockets.set(io.of('/').sockets.size);
+  }));
+}
+
+// Past games and their downloads
+app.use(createHistoryRouter(archives, images));
+
+// Drawings referenced by rooms and games
+app.use(createImageRouter(images));
+
+// Operator API, only available when a token is configured
+if (ADMIN_TOKEN) {
+  app.use(createAdminRouter(io, store, ADMIN_TOKEN));
+}
+
 // Initialize Socket.IO events
-initializeSocketEvents(io);
+initializeSocketEvents(io, {
+  store,
+  archives,
+  images,
+  drawingLimits: { maxBytes: MAX_DRAWING_BYTES, maxPixels: MAX_DRAWING_PIXELS },
+  rateLimiter: new RateLimiter({
+    banThreshold: RATE_LIMIT_BAN_THRESHOLD,
+    banWindow: 60 * 1000,
+    banDuration: RATE_LIMIT_BAN_DURATION
+  }),
+  metrics,
+  moderator: new TextModerator({
+    blockedWords: BLOCKED_WORDS_FILE ? loadWordList(BLOCKED_WORDS_FILE) : [],
+    action: FILTER_ACTIONS.includes(MODERATION_ACTION) ? MODERATION_ACTION : 'mask'
+  }),
+  webhooks: new WebhookDispatcher({
+    endpoints: WEBHOOKS_FILE ? loadWebhookEndpoints(WEBHOOKS_FILE) : [],
+    maxQueueSize: WEBHOOK_QUEUE_SIZE,
+    maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+    retryDelay: WEBHOOK_RETRY_DELAY,
+    timeout: WEBHOOK_TIMEOUT,
+    metrics
+  }),
+  maxRoomsPerClient: MAX_ROOMS_PER_CLIENT,
+  trustProxy: TRUST_PROXY,
+  inviteSecret: INVITE_SECRET,
+  reconnectGracePeriod: RECONNECT_GRACE_PERIOD,
+  botDelay: BOT_DELAY,
+  resumeRooms: !REDIS_URL
+});
+
+// Close idle and abandoned rooms
+new RoomSweeper(io, store, {
+  idleTimeout: ROOM_IDLE_TIMEOUT,
+  maxAge: ROOM_MAX_AGE,
+  warningPeriod: ROOM_EXPIRY_WARNING,
+  interval: ROOM_SWEEP_INTERVAL
+}).start();
 
 // Start the server
 server.listen(PORT, () => {
-  console.log(`Socket.IO server running on port ${PORT}`);
-  console.log(`Allowed origins: ${ALLOWED_ORIGINS.join(', ')}`);
+  logger.info('Socket.IO server running', { port: Number(PORT), allowedOrigins: ALLOWED_ORIGINS });
 }); 
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Fields added to every line logged while handling an event
+export interface LogContext {
+  event?: string;
+  socketId?: string;
+  playerId?: string;
+  spectatorId?: string;
+  roomCode?: string;
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+// Run a function with extra log context, kept through everything it awaits
+export const withLogContext = <T>(context: LogContext, fn: () => T): T => {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+};
+
+// Add to the log context of the event being handled, once it is known (e.g. the room code)
+export const addLogContext = (context: LogContext): void => {
+  const store = contextStorage.getStore();
+  if (store) Object.assign(store, context);
+};
+
+export const getLogContext = (): LogContext => contextStorage.getStore() || {};
+
+// Errors do not survive JSON.stringify on their own
+const serializeField = (value: unknown): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+};
+
+// Writes one JSON object per line, skipping lines below its level
+export class Logger {
+  constructor(private level: LogLevel = 'info') {}
+
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  debug(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields: Record<string, unknown> = {}): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: Record<string, unknown>): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) return;
+
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...getLogContext()
+    };
+    Object.entries(fields).forEach(([key, value]) => {
+      entry[key] = serializeField(value);
+    });
+
+    const line = JSON.stringify(entry) + '\n';
+    if (level === 'error' || level === 'warn') {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+  }
+}
+
+// Shared by the whole server, its level is set from LOG_LEVEL on startup
+export const logger = new Logger();
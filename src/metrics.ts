@@ -0,0 +1,158 @@
+import { Router } from 'express';
+import { isValidBearerToken } from './access';
+import { logger } from './logger';
+
+type Labels = Record<string, string>;
+
+// Prometheus series name with its labels, e.g. `name{event="join-room"}`
+const formatSeries = (name: string, labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${value.replace(/["\\\n]/g, '\\$&')}"`);
+  return pairs.length > 0 ? `${name}{${pairs.join(',')}}` : name;
+};
+
+const labelKey = (labels: Labels): string => JSON.stringify(Object.entries(labels).sort());
+
+// Value that only goes up, per set of labels
+export class Counter {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    this.values.set(key, { labels, value: (current?.value || 0) + amount });
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.values.forEach(({ labels, value }) => lines.push(`${formatSeries(this.name, labels)} ${value}`));
+    return lines;
+  }
+}
+
+// Value read when metrics are scraped
+export class Gauge {
+  private value = 0;
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  set(value: number): void {
+    this.value = value;
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.value}`];
+  }
+}
+
+// Distribution of observed values over fixed buckets, per set of labels
+export class Histogram {
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index] += 1;
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  // Start timing something, the returned function records the elapsed seconds
+  startTimer(labels: Labels): () => void {
+    const start = process.hrtime.bigint();
+    return () => this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.series.forEach(({ labels, counts, sum, count }) => {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${formatSeries(`${this.name}_bucket`, { ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${formatSeries(`${this.name}_bucket`, { ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${formatSeries(`${this.name}_sum`, labels)} ${sum}`);
+      lines.push(`${formatSeries(`${this.name}_count`, labels)} ${count}`);
+    });
+    return lines;
+  }
+}
+
+// Seconds
+const LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+// Bytes, drawings make up the top buckets
+const SIZE_BUCKETS = [64, 256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304];
+
+// Everything the server reports on /metrics
+export class Metrics {
+  readonly activeRooms = new Gauge('mnsphone_active_rooms', 'Rooms currently open');
+  readonly connectedSockets = new Gauge('mnsphone_connected_sockets', 'Sockets connected to this instance');
+  readonly gamesStarted = new Counter('mnsphone_games_started_total', 'Games started');
+  readonly gamesCompleted = new Counter('mnsphone_games_completed_total', 'Games that reached the results');
+  readonly eventDuration = new Histogram(
+    'mnsphone_event_duration_seconds',
+    'Time spent handling client events',
+    LATENCY_BUCKETS
+  );
+  readonly eventErrors = new Counter('mnsphone_event_errors_total', 'Errors sent back to clients, by event and code');
+  readonly payloadSize = new Histogram('mnsphone_event_payload_bytes', 'Size of client event payloads', SIZE_BUCKETS);
+  readonly webhookDeliveries = new Counter(
+    'mnsphone_webhook_deliveries_total',
+    'Webhook deliveries, by event and result (delivered, failed or dropped)'
+  );
+
+  render(): string {
+    return [
+      this.activeRooms,
+      this.connectedSockets,
+      this.gamesStarted,
+      this.gamesCompleted,
+      this.eventDuration,
+      this.eventErrors,
+      this.payloadSize,
+      this.webhookDeliveries
+    ].flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+}
+
+// Approximate size of an event payload on the wire
+export const getPayloadSize = (payload: unknown): number => {
+  if (payload === undefined) return 0;
+  if (payload instanceof ArrayBuffer || payload instanceof Uint8Array) return payload.byteLength;
+  if (typeof payload === 'object' && payload !== null) {
+    // Binary attachments are sent as they are, not as JSON
+    return Object.values(payload).reduce<number>((size, value) => size + getPayloadSize(value), 0);
+  }
+  return Buffer.byteLength(JSON.stringify(payload));
+};
+
+// Prometheus scrape endpoint, `collect` refreshes the gauges first
+export const createMetricsRouter = (metrics: Metrics, token: string, collect: () => Promise<void>): Router => {
+  const router = Router();
+
+  router.get('/metrics', async (req, res) => {
+    if (!isValidBearerToken(req.headers.authorization, token)) {
+      return res.status(401).json({ status: 'error', message: 'Invalid metrics token' });
+    }
+
+    try {
+      await collect();
+      res.type('text/plain; version=0.0.4').status(200).send(metrics.render());
+    } catch (error) {
+      logger.error('Error collecting metrics', { error });
+      res.status(500).json({ status: 'error', message: 'Failed to collect metrics' });
+    }
+  });
+
+  return router;
+};
@@ -1,14 +1,40 @@
 // Game types and interfaces
 export type GameState = 'lobby' | 'writing' | 'drawing' | 'results';
 
+// Phases in which players submit something
+export type PhaseType = 'writing' | 'drawing';
+
+// Classic alternates writing and drawing, drawing-only redraws the previous drawing,
+// secret word starts every chain with a word from the server instead of a sentence
+export type GameMode = 'classic' | 'drawing-only' | 'secret-word';
+
 export interface GamePlayer {
-  id: string;
+  id: string; // Stable player ID, survives reconnects
+  socketId: string; // ID of the socket currently bound to the player
   nickname: string;
   profilePic: string;
   isHost: boolean;
+  isCoHost: boolean; // Can run the presentation and kick players, but not change settings
+  isBot: boolean; // Played by the server, without a socket
   isReady: boolean;
+  connected: boolean;
+  reconnectToken: string; // Secret used by rejoin-room, never sent to clients
+}
+
+export interface Spectator {
+  id: string;
+  socketId: string;
+  nickname: string;
 }
 
+export interface PlayerSession {
+  playerId: string;
+  reconnectToken: string;
+}
+
+// A player with nothing submitted yet is working, a submission stays editable until they are done
+export type SubmissionStatus = 'working' | 'submitted' | 'done';
+
 export interface Sentence {
   playerId: string;
   text: string;
@@ -17,8 +43,80 @@ export interface Sentence {
 
 export interface Drawing {
   playerId: string;
-  imageData: string; // Base64 encoded image data
+  imageId: string; // Stored image, served from /images/:imageId
+  round: number;
+  recorded?: boolean; // Strokes were recorded and the drawing can be replayed
+}
+
+// Point of a stroke: x and y on the canvas, and milliseconds since the drawing started
+export type StrokePoint = [number, number, number];
+
+export interface Stroke {
+  color: string; // #rrggbb
+  width: number;
+  points: StrokePoint[];
+}
+
+// How a drawing was made, stroke by stroke
+export interface DrawingRecording {
+  width: number; // Canvas size the points refer to
+  height: number;
+  strokes: Stroke[];
+}
+
+export type ChainEntryType = 'sentence' | 'drawing' | 'word'; // Words are the secret words chains start with
+
+export interface ChainEntry {
+  type: ChainEntryType;
+  playerId: string;
+  content: string; // Sentence text or image ID of the drawing
   round: number;
+  placeholder?: boolean; // Filled in by the server when the player ran out of time
+  hidden?: boolean; // Hidden from the presentation by the host
+}
+
+export interface Chain {
+  id: string;
+  ownerId: string; // Player who wrote the first sentence
+  entries: ChainEntry[];
+}
+
+export type ModerationAction = 'masked' | 'rejected' | 'reported' | 'hidden' | 'shown';
+
+// A decision of the word filter, a player's report, or the host hiding or showing a submission
+export interface ModerationEntry {
+  id: string;
+  action: ModerationAction;
+  playerId: string; // Player (or spectator) the content belongs to
+  byId: string | null; // Reporter or host, null for the word filter
+  field: 'nickname' | 'sentence' | 'drawing';
+  reason: string;
+  content?: string; // Reported sentence, image ID or nickname
+  chainId?: string; // Submission the entry is about, if any
+  entryIndex?: number;
+  createdAt: number; // Timestamp (ms)
+}
+
+export type VoteKind = 'love' | 'laugh' | 'derailed';
+
+// Reactions given to one step of a chain during the presentation
+export interface StepVotes {
+  chainId: string;
+  entryIndex: number;
+  voters: Record<VoteKind, string[]>; // Player or spectator IDs per reaction
+}
+
+export interface Award {
+  chainId: string;
+  entryIndex: number | null; // Null for awards given to a whole chain
+  playerId: string;
+  votes: number;
+}
+
+export interface Awards {
+  bestDrawing: Award | null; // Most loved drawing
+  funniestSentence: Award | null; // Most laughed-at sentence
+  mostDerailedChain: Award | null; // Chain with the most derailed votes, credited to its owner
 }
 
 export interface PresentationMode {
@@ -26,19 +124,87 @@ export interface PresentationMode {
   currentIndex: number;
 }
 
+// Public rooms are listed in the lobby, unlisted and password rooms are only joinable by code or invite
+export type RoomVisibility = 'public' | 'unlisted' | 'password';
+
+export interface Invite {
+  id: string;
+  createdBy: string; // Player ID
+  expiresAt: number; // Timestamp (ms)
+}
+
+export interface RoomSettings {
+  mode: GameMode;
+  firstPhase: PhaseType; // Ignored by modes with a fixed phase order
+  maxPlayers: number;
+  maxRounds: number; // Each round is a writing and a drawing phase
+  roundsFromPlayers: boolean; // Play one phase per player so every chain goes all the way around
+  writingDuration: number; // Seconds, 0 for no time limit
+  drawingDuration: number; // Seconds, 0 for no time limit
+  maxSpectators: number;
+  visibility: RoomVisibility;
+}
+
 export interface GameRoom {
   id: string;
   code: string;
+  revision: number; // Increases by one with every change sent to clients
   players: GamePlayer[];
+  spectators: Spectator[]; // Watch the game, never counted as players
   gameState: GameState;
-  currentRound: number;
-  maxRounds: number;
+  currentRound: number; // Counts writing and drawing phases, not the rounds of the settings
+  maxRounds: number; // Phases of the current game, from the settings or the player count
+  settings: RoomSettings;
+  phaseDeadline: number | null; // Timestamp (ms) when the current phase ends
   createdAt: Date;
+  startedAt: Date | null; // When the current game started
+  lastActivity: Date; // Last change sent to clients
   locked: boolean;
+  passwordHash: string | null; // Set for password rooms, never sent to clients
+  invites: Invite[]; // Invites that have not been revoked
   sentences: Sentence[];
   drawings: Drawing[];
+  turnOrder: string[]; // Player IDs in the order chains are passed along, departed players keep their slot
+  phasePlayers: string[]; // Players who have to submit in the current phase, fixed when it begins
+  donePlayers: string[]; // Players whose submission for the current phase is final
+  chains: Chain[];
   presentationMode: PresentationMode;
+  votes: Record<string, StepVotes>; // Keyed by chain ID and entry index
+  awards: Awards | null; // Set when the presentation ends
+  moderation: ModerationEntry[]; // Only sent to the host and co-hosts
+  recordings: Record<string, string>; // Encoded stroke recordings keyed by player ID and round, never sent to clients
+  lastGame: ArchivedGameLink | null; // Download link of the last game that reached the results, until the room is reset
+  expiryWarning: number | null; // Close time the room was last warned about, never sent to clients
+}
+
+// What players need to download an archived game
+export interface ArchivedGameLink {
+  gameId: string;
+  downloadToken: string;
 }
 
-// In-memory storage for game rooms
-export const rooms: Map<string, GameRoom> = new Map(); 
\ No newline at end of file
+// Snapshot of a finished game, kept after the room moves on
+export interface GameArchive {
+  id: string;
+  downloadToken: string; // Required to download the game, only given to the room
+  roomId: string;
+  roomCode: string;
+  startedAt: Date;
+  finishedAt: Date;
+  maxRounds: number;
+  settings: RoomSettings;
+  players: Array<Pick<GamePlayer, 'id' | 'nickname' | 'profilePic'>>;
+  chains: Chain[];
+}
+
+// Room and player shapes as sent to clients
+export type ClientPlayer = Omit<GamePlayer, 'reconnectToken' | 'socketId'>;
+
+export type ClientSpectator = Omit<Spectator, 'socketId'>;
+
+export type ClientRoom = Omit<GameRoom, 'players' | 'spectators' | 'passwordHash' | 'recordings' | 'expiryWarning'> & {
+  players: ClientPlayer[];
+  spectators: ClientSpectator[];
+  submitted: string[]; // Players who submitted in the current phase
+  prompt: ChainEntry | null; // Entry the receiving player has to respond to
+}; 
\ No newline at end of file
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorPayload } from './events';
+import { GameRoom, ModerationEntry } from './models';
+import { logger } from './logger';
+
+// What the filter does with text containing a blocked word
+export type FilterAction = 'mask' | 'reject';
+
+export const FILTER_ACTIONS: FilterAction[] = ['mask', 'reject'];
+
+export type ModeratedField = 'nickname' | 'sentence';
+
+export interface ModerationOptions {
+  blockedWords: string[];
+  action: FilterAction;
+}
+
+// Text that passed moderation, possibly with blocked words masked
+export interface ModeratedText {
+  text: string;
+  masked: boolean;
+}
+
+// Longest moderation log kept per room, older entries are dropped first
+const MAX_LOG_ENTRIES = 200;
+
+// Control and invisible formatting characters (zero-width spaces, direction overrides...)
+const HIDDEN_CHARACTERS = /[\p{Cc}\p{Cf}]/gu;
+
+// Runs of combining marks stacked on one character, used to draw over the rest of the page
+const STACKED_MARKS = /\p{M}{4,}/u;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Test a global pattern from the start of the text, whatever an earlier test left in lastIndex
+const matches = (pattern: RegExp, text: string): boolean => {
+  pattern.lastIndex = 0;
+  return pattern.test(text);
+};
+
+// Read a word list with one word per line, ignoring blank lines and `#` comments
+export const loadWordList = (filePath: string): string[] => {
+  return fs.readFileSync(filePath, 'utf8')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+};
+
+// Checks nicknames and sentences against character rules and a local word list
+export class TextModerator {
+  private pattern: RegExp | null;
+
+  constructor(private options: ModerationOptions) {
+    const words = options.blockedWords.map(word => escapeRegExp(word.normalize('NFKC').toLowerCase()));
+    // Whole words only, so blocking "ass" leaves "class" alone
+    this.pattern = words.length > 0
+      ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+      : null;
+  }
+
+  // Clean up a text and apply the word filter, or return the error to send back
+  check(text: string, field: ModeratedField): ModeratedText | { error: ErrorPayload } {
+    if (STACKED_MARKS.test(text)) {
+      return { error: { code: 'CONTENT_REJECTED', message: `The ${field} has too many stacked accents` } };
+    }
+
+    const cleaned = text.normalize('NFKC').replace(HIDDEN_CHARACTERS, '').replace(/\s+/g, ' ').trim();
+    if (!cleaned) {
+      return { error: { code: 'CONTENT_REJECTED', message: `The ${field} is empty once invisible characters are removed` } };
+    }
+
+    const { pattern } = this;
+    if (!pattern || !matches(pattern, cleaned)) {
+      return { text: cleaned, masked: false };
+    }
+
+    if (this.options.action === 'reject') {
+      return { error: { code: 'CONTENT_REJECTED', message: `The ${field} contains a blocked word` } };
+    }
+    return { text: cleaned.replace(pattern, word => '*'.repeat(word.length)), masked: true };
+  }
+}
+
+// Add a decision to the room's moderation log and the server log
+export const recordModeration = (room: GameRoom, entry: Omit<ModerationEntry, 'id' | 'createdAt'>): ModerationEntry => {
+  const logged: ModerationEntry = { id: uuidv4(), createdAt: Date.now(), ...entry };
+  room.moderation = [...room.moderation, logged].slice(-MAX_LOG_ENTRIES);
+  logger.info('Moderation decision', { roomCode: room.code, ...entry });
+  return logged;
+};
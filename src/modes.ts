@@ -0,0 +1,42 @@
+import { GameMode, GameRoom, PhaseType, RoomSettings } from './models';
+
+export const GAME_MODES: GameMode[] = ['classic', 'drawing-only', 'secret-word'];
+export const PHASE_TYPES: PhaseType[] = ['writing', 'drawing'];
+
+// Words handed out as the start of every chain in secret word games
+const SECRET_WORDS = [
+  'astronaut', 'avalanche', 'bagpipes', 'barbecue', 'beehive', 'birthday', 'blender', 'bonfire',
+  'bowling', 'cactus', 'camel', 'campfire', 'carousel', 'castle', 'chandelier', 'chess',
+  'dentist', 'dinosaur', 'dragon', 'earthquake', 'elevator', 'fireworks', 'flamingo', 'fountain',
+  'ghost', 'giraffe', 'haircut', 'hammock', 'hedgehog', 'helicopter', 'igloo', 'jellyfish',
+  'karaoke', 'lighthouse', 'lobster', 'magician', 'mermaid', 'mummy', 'octopus', 'origami',
+  'parachute', 'penguin', 'pirate', 'pyramid', 'rainbow', 'robot', 'sandcastle', 'scarecrow',
+  'skateboard', 'snowman', 'submarine', 'sunburn', 'tornado', 'treasure', 'unicorn', 'vampire',
+  'volcano', 'waterfall', 'werewolf', 'yoga'
+];
+
+// Phase played in a round: classic games alternate from the chosen first phase,
+// secret word games start by drawing the word and drawing-only games never write
+export const getPhaseForRound = (settings: RoomSettings, round: number): PhaseType => {
+  if (settings.mode === 'drawing-only') return 'drawing';
+
+  const first = settings.mode === 'secret-word' ? 'drawing' : settings.firstPhase;
+  const second = first === 'writing' ? 'drawing' : 'writing';
+  return round % 2 === 1 ? first : second;
+};
+
+// Phases the game will have once started. A round of the settings is a writing and a drawing
+// phase, or two drawing phases in drawing-only games.
+export const getPhaseCount = (room: GameRoom): number => {
+  return room.settings.roundsFromPlayers ? room.players.length : room.settings.maxRounds * 2;
+};
+
+// Pick a different secret word for every chain
+export const pickSecretWords = (count: number): string[] => {
+  const words = [...SECRET_WORDS];
+  for (let i = words.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [words[i], words[j]] = [words[j], words[i]];
+  }
+  return words.slice(0, count);
+};
@@ -0,0 +1,91 @@
+import zlib from 'zlib';
+import { DecodedImage } from './images';
+import { crc32 } from './zip';
+
+export type Rgb = [number, number, number];
+
+// Parse a `#rrggbb` colour
+export const parseColor = (color: string): Rgb => [
+  parseInt(color.slice(1, 3), 16),
+  parseInt(color.slice(3, 5), 16),
+  parseInt(color.slice(5, 7), 16)
+];
+
+// PNG chunk: length, type, data and the CRC of type and data
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+// Round stamps along a line: their radius and how many there are
+const getLineStamps = (x1: number, y1: number, x2: number, y2: number, width: number): { radius: number; steps: number } => {
+  const radius = Math.max(width / 2, 0.5);
+  const steps = Math.max(Math.ceil(Math.hypot(x2 - x1, y2 - y1) / Math.max(radius / 2, 0.5)), 1);
+  return { radius, steps };
+};
+
+// Pixels drawLine visits for a line, to bound the work before drawing anything
+export const getLineCost = (x1: number, y1: number, x2: number, y2: number, width: number): number => {
+  const { radius, steps } = getLineStamps(x1, y1, x2, y2, width);
+  return (steps + 1) * (Math.floor(2 * radius) + 2) ** 2;
+};
+
+// RGB pixel buffer the server draws on, for drawings it makes itself
+export class Canvas {
+  private pixels: Buffer;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = Buffer.alloc(width * height * 3, 255);
+  }
+
+  paint(x: number, y: number, [r, g, b]: Rgb): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    const offset = (Math.floor(y) * this.width + Math.floor(x)) * 3;
+    this.pixels[offset] = r;
+    this.pixels[offset + 1] = g;
+    this.pixels[offset + 2] = b;
+  }
+
+  fillCircle(cx: number, cy: number, radius: number, color: Rgb): void {
+    for (let y = Math.floor(cy - radius); y <= cy + radius; y++) {
+      for (let x = Math.floor(cx - radius); x <= cx + radius; x++) {
+        if ((x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2 <= radius ** 2) this.paint(x, y, color);
+      }
+    }
+  }
+
+  // Line with round ends, stamped as circles along its length
+  drawLine(x1: number, y1: number, x2: number, y2: number, width: number, color: Rgb): void {
+    const { radius, steps } = getLineStamps(x1, y1, x2, y2, width);
+    for (let step = 0; step <= steps; step++) {
+      this.fillCircle(x1 + ((x2 - x1) * step) / steps, y1 + ((y2 - y1) * step) / steps, radius, color);
+    }
+  }
+
+  toImage(): DecodedImage {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    header[8] = 8; // Bit depth
+    header[9] = 2; // Truecolour
+
+    // Every row starts with its filter type, 0 for none
+    const rowLength = this.width * 3;
+    const rows = Buffer.alloc((rowLength + 1) * this.height);
+    for (let y = 0; y < this.height; y++) {
+      this.pixels.copy(rows, y * (rowLength + 1) + 1, y * rowLength, (y + 1) * rowLength);
+    }
+
+    const data = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk('IHDR', header),
+      pngChunk('IDAT', zlib.deflateSync(rows)),
+      pngChunk('IEND', Buffer.alloc(0))
+    ]);
+    return { type: 'png', width: this.width, height: this.height, data };
+  }
+}
@@ -0,0 +1,157 @@
+import { ClientToServerEvents } from './events';
+import { logger } from './logger';
+import { isKnownEvent } from './validation';
+
+export interface BucketLimit {
+  capacity: number; // Events allowed in a burst
+  perSecond: number; // Events the bucket refills with every second
+}
+
+export interface EventLimit {
+  socket: BucketLimit;
+  ip: BucketLimit; // Shared by every socket from the same address
+}
+
+export interface RateLimitOptions {
+  events?: Partial<Record<keyof ClientToServerEvents, EventLimit>>; // Overrides of the default limits
+  banThreshold: number; // Violations within the ban window that get an address banned
+  banWindow: number; // Milliseconds
+  banDuration: number; // Milliseconds
+  now?: () => number; // Clock, replaced in tests
+}
+
+// Limits for events that create rooms, guess room codes or are broadcast to many sockets
+const DEFAULT_EVENT_LIMITS: Partial<Record<keyof ClientToServerEvents, EventLimit>> = {
+  'create-room': { socket: { capacity: 3, perSecond: 0.1 }, ip: { capacity: 10, perSecond: 0.2 } },
+  'join-room': { socket: { capacity: 5, perSecond: 0.5 }, ip: { capacity: 20, perSecond: 1 } },
+  'spectate-room': { socket: { capacity: 5, perSecond: 0.5 }, ip: { capacity: 20, perSecond: 1 } },
+  'rejoin-room': { socket: { capacity: 5, perSecond: 0.5 }, ip: { capacity: 20, perSecond: 1 } },
+  'toggle-ready': { socket: { capacity: 5, perSecond: 2 }, ip: { capacity: 50, perSecond: 20 } },
+  'toggle-room-lock': { socket: { capacity: 5, perSecond: 2 }, ip: { capacity: 50, perSecond: 20 } },
+  'report-player': { socket: { capacity: 3, perSecond: 0.1 }, ip: { capacity: 10, perSecond: 0.5 } },
+  'submit-drawing': { socket: { capacity: 5, perSecond: 1 }, ip: { capacity: 50, perSecond: 10 } },
+  'get-active-rooms': { socket: { capacity: 5, perSecond: 1 }, ip: { capacity: 50, perSecond: 10 } }
+};
+
+// Limit of every other event
+const DEFAULT_LIMIT: EventLimit = {
+  socket: { capacity: 20, perSecond: 10 },
+  ip: { capacity: 200, perSecond: 100 }
+};
+
+// Bucket key of every event without a schema, which well-behaved clients never send
+const UNKNOWN_EVENT_KEY = '(unknown)';
+const UNKNOWN_EVENT_LIMIT: EventLimit = {
+  socket: { capacity: 5, perSecond: 1 },
+  ip: { capacity: 20, perSecond: 5 }
+};
+
+// Milliseconds between clean-ups of stale state
+const PRUNE_INTERVAL = 60 * 1000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  fullAt: number; // When the bucket has refilled, after which a new one would be the same
+}
+
+// Token buckets per socket and per address, with temporary bans for repeat offenders
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private violations: Map<string, { count: number; since: number }> = new Map();
+  private bans: Map<string, number> = new Map(); // Ban end, keyed by address
+  private limits: Partial<Record<string, EventLimit>>;
+  private now: () => number;
+  private prunedAt: number;
+
+  constructor(private options: RateLimitOptions) {
+    this.limits = { ...DEFAULT_EVENT_LIMITS, ...options.events };
+    this.now = options.now || Date.now;
+    this.prunedAt = this.now();
+  }
+
+  // Take a token for an event, returning 0 when it is allowed or the milliseconds to wait otherwise
+  consume(event: string, socketId: string, ip: string): number {
+    const now = this.now();
+    this.prune(now);
+
+    const banned = this.getBan(ip);
+    if (banned) return banned;
+
+    // Events outside the protocol share one bucket, so made-up names cannot each get a fresh one
+    const known = isKnownEvent(event);
+    const key = known ? event : UNKNOWN_EVENT_KEY;
+    const limit = known ? this.limits[event] || DEFAULT_LIMIT : UNKNOWN_EVENT_LIMIT;
+    const retryAfter = Math.max(
+      this.take(`socket:${socketId}:${key}`, limit.socket, now),
+      this.take(`ip:${ip}:${key}`, limit.ip, now)
+    );
+    if (retryAfter) {
+      this.recordViolation(ip, now);
+    }
+    return retryAfter;
+  }
+
+  // Milliseconds left on an address's ban, 0 when it is not banned
+  getBan(ip: string): number {
+    const bannedUntil = this.bans.get(ip);
+    return bannedUntil ? Math.max(bannedUntil - this.now(), 0) : 0;
+  }
+
+  // Drop the buckets of a socket that disconnected
+  forgetSocket(socketId: string): void {
+    const prefix = `socket:${socketId}:`;
+    for (const key of this.buckets.keys()) {
+      if (key.startsWith(prefix)) this.buckets.delete(key);
+    }
+  }
+
+  private take(key: string, limit: BucketLimit, now: number): number {
+    const bucket = this.buckets.get(key) || { tokens: limit.capacity, updatedAt: now, fullAt: now };
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.perSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+    bucket.fullAt = now + ((limit.capacity - bucket.tokens) / limit.perSecond) * 1000;
+    return allowed ? 0 : Math.ceil(((1 - bucket.tokens) / limit.perSecond) * 1000);
+  }
+
+  private recordViolation(ip: string, now: number): void {
+    const violations = this.violations.get(ip);
+    if (!violations || now - violations.since > this.options.banWindow) {
+      this.violations.set(ip, { count: 1, since: now });
+      return;
+    }
+
+    violations.count += 1;
+    if (violations.count >= this.options.banThreshold) {
+      logger.warn('Banning address after repeated rate limit violations', {
+        address: ip,
+        duration: this.options.banDuration,
+        violations: violations.count
+      });
+      this.bans.set(ip, now + this.options.banDuration);
+      this.violations.delete(ip);
+    }
+  }
+
+  // Forget expired bans, old violations and buckets that have refilled
+  private prune(now: number): void {
+    if (now - this.prunedAt < PRUNE_INTERVAL) return;
+    this.prunedAt = now;
+
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    });
+    this.violations.forEach((violations, ip) => {
+      if (now - violations.since > this.options.banWindow) this.violations.delete(ip);
+    });
+    this.bans.forEach((bannedUntil, ip) => {
+      if (bannedUntil <= now) this.bans.delete(ip);
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import { ReplayAction } from './events';
+import { DrawingRecording } from './models';
+import { getRecordingDuration } from './strokes';
+
+export const REPLAY_ACTIONS: ReplayAction[] = ['pause', 'resume', 'stop', 'set-speed'];
+
+// Slowest and fastest replays, as multiples of the pace the drawing was made at
+export const REPLAY_SPEEDS = { min: 0.25, max: 8 };
+
+// Point of a replay frame: index of the stroke it belongs to, x and y
+export type ReplayPoint = [number, number, number];
+
+export interface ReplayFrame {
+  position: number; // Milliseconds into the recording
+  points: ReplayPoint[]; // Points reached since the previous frame, in drawing order
+}
+
+export interface ReplayOptions {
+  speed: number; // 1 is the pace the drawing was made at
+  interval: number; // Milliseconds between frames
+  onFrame: (frame: ReplayFrame) => void;
+  onEnd: () => void;
+  now?: () => number; // Clock, replaced in tests
+}
+
+// Plays a recording back at an adjustable pace, handing out the points due every interval
+export class DrawingReplay {
+  readonly duration: number;
+  private position = 0;
+  private lastTick: number;
+  private paused = false;
+  private speed: number;
+  private timer: NodeJS.Timeout | null = null;
+  private stroke = 0; // Next point to send
+  private point = 0;
+  private now: () => number;
+
+  constructor(private recording: DrawingRecording, private options: ReplayOptions) {
+    this.duration = getRecordingDuration(recording);
+    this.speed = options.speed;
+    this.now = options.now || Date.now;
+    this.lastTick = this.now();
+  }
+
+  get state(): { paused: boolean; speed: number; position: number } {
+    this.advance();
+    return { paused: this.paused, speed: this.speed, position: Math.min(this.position, this.duration) };
+  }
+
+  start(): void {
+    this.lastTick = this.now();
+    this.timer = setInterval(() => this.tick(), this.options.interval);
+    this.tick();
+  }
+
+  pause(): void {
+    this.advance();
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.advance();
+    this.paused = false;
+  }
+
+  setSpeed(speed: number): void {
+    this.advance();
+    this.speed = speed;
+  }
+
+  // Stop without announcing the end, for replays that are cut short
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Move the position forward by the time played since the last call
+  private advance(): void {
+    const now = this.now();
+    if (!this.paused) {
+      this.position += (now - this.lastTick) * this.speed;
+    }
+    this.lastTick = now;
+  }
+
+  private tick(): void {
+    this.advance();
+
+    const points: ReplayPoint[] = [];
+    const strokes = this.recording.strokes;
+    while (this.stroke < strokes.length) {
+      const stroke = strokes[this.stroke];
+      if (this.point >= stroke.points.length) {
+        this.stroke += 1;
+        this.point = 0;
+        continue;
+      }
+
+      const [x, y, t] = stroke.points[this.point];
+      if (t > this.position) break;
+      points.push([this.stroke, x, y]);
+      this.point += 1;
+    }
+
+    if (points.length > 0) {
+      this.options.onFrame({ position: Math.min(this.position, this.duration), points });
+    }
+    if (this.stroke >= strokes.length) {
+      this.stop();
+      this.options.onEnd();
+    }
+  }
+}
@@ -1,616 +1,2204 @@
-import { Server, Socket } from 'socket.io';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Server as SocketIOServer, Socket as SocketIOSocket } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
-import { GameRoom, GamePlayer, rooms } from './models';
+import {
+  ChainEntry,
+  ChainEntryType,
+  ClientRoom,
+  Drawing,
+  DrawingRecording,
+  GameArchive,
+  GameRoom,
+  GamePlayer,
+  RoomSettings,
+  Spectator
+} from './models';
+import {
+  ActiveRoom,
+  ClientToServerEvents,
+  InterServerEvents,
+  PromptPayload,
+  ReplayAction,
+  ServerToClientEvents,
+  SocketData
+} from './events';
+import { addChainEntry, createChains, getAssignedChain, getPromptFor, removeChainEntry } from './chains';
+import { computeAwards, toggleVote } from './awards';
+import { isKnownEvent, validateEvent } from './validation';
+import { diffSnapshots, toSnapshot } from './sync';
+import { RateLimiter } from './ratelimit';
+import { checkRoomAccess, createInviteToken, hashPassword } from './access';
+import { getPhaseCount, getPhaseForRound } from './modes';
+import { getRoomAudiences, getSubmissionStatuses, getSubmittedPlayerIds, spectatorChannel, toRoomView } from './views';
+import { RoomStore } from './store';
+import { ArchiveStore, createArchive } from './archive';
+import { decodeDrawing, DecodedImage, DrawingLimits, getImageId, ImageStore } from './images';
+import { addLogContext, getLogContext, logger, withLogContext } from './logger';
+import { getPayloadSize, Metrics } from './metrics';
+import { recordModeration, TextModerator } from './moderation';
+import { drawBotPicture, pickBotName, writeBotSentence } from './bots';
+import {
+  appendStrokes,
+  canRasterize,
+  checkRecording,
+  decodeRecording,
+  encodeRecording,
+  rasterizeRecording,
+  recordingKey
+} from './strokes';
+import { DrawingReplay } from './replay';
+import { WebhookDispatcher, WebhookPlayer } from './webhooks';
+
+export type Server = SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+type Socket = SocketIOSocket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+export interface SocketOptions {
+  store: RoomStore;
+  archives: ArchiveStore; // Where finished games are kept
+  images: ImageStore; // Where drawings are kept, rooms only hold their IDs
+  drawingLimits: DrawingLimits;
+  rateLimiter: RateLimiter;
+  metrics: Metrics;
+  moderator: TextModerator; // Checks nicknames and sentences
+  webhooks: WebhookDispatcher; // Tells outside services about rooms and games
+  maxRoomsPerClient: number; // Rooms one address can have open at once
+  trustProxy: boolean; // Take client addresses from X-Forwarded-For
+  inviteSecret: string; // Key invite tokens are signed with
+  reconnectGracePeriod: number; // Milliseconds a disconnected player keeps their seat
+  botDelay: number; // Milliseconds bots take to submit, give or take half
+  resumeRooms: boolean; // Restart timers of stored rooms, off when other instances own them
+}
+
+// Room storage, set up by initializeSocketEvents
+let rooms: RoomStore;
+let archives: ArchiveStore;
+let images: ImageStore;
+let drawingLimits: DrawingLimits;
+let rateLimiter: RateLimiter;
+let metrics: Metrics;
+let moderator: TextModerator;
+let webhooks: WebhookDispatcher;
+let maxRoomsPerClient: number;
+let trustProxy: boolean;
+let inviteSecret: string;
+let reconnectGracePeriod: number;
+let botDelay: number;
+
+// Pending removals of disconnected players, keyed by player ID
+const disconnectTimers: Map<string, NodeJS.Timeout> = new Map();
+
+// Open rooms created from each client address
+const roomsByClient: Map<string, Set<string>> = new Map();
+
+// Last room views sent to each player and the spectators, keyed by room ID, to send changes as patches
+const roomViews: Map<string, { revision: number; views: Record<string, ClientRoom> }> = new Map();
+
+// Pending bot submissions, keyed by bot player ID
+const botTimers: Map<string, NodeJS.Timeout> = new Map();
+
+// Drawing replays being played in presentations, keyed by room ID
+const replays: Map<string, { id: string; replay: DrawingReplay }> = new Map();
+
+// Strokes streamed for drawings not submitted yet, keyed by room ID then recording key. They
+// are only encoded into the room once the drawing is submitted.
+const strokeBuffers: Map<string, Map<string, DrawingRecording>> = new Map();
+
+// Running phase timers, keyed by room ID
+const phaseTimers: Map<string, NodeJS.Timeout> = new Map();
+
+// Lifetime of invites created without an explicit one, in seconds
+const DEFAULT_INVITE_LIFETIME = 24 * 60 * 60;
+
+// Milliseconds between replay frames
+const REPLAY_FRAME_INTERVAL = 100;
+
+// Extra time after a deadline for submissions that are still in flight
+const DEADLINE_GRACE_PERIOD = 1000;
+
+// Placeholders for players who did not submit before the deadline
+const EMPTY_SENTENCE = '(no answer)';
+const BLANK_CANVAS: DecodedImage = {
+  type: 'png',
+  width: 1,
+  height: 1,
+  data: Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==', 'base64')
+};
+const BLANK_CANVAS_ID = getImageId(BLANK_CANVAS.data, BLANK_CANVAS.type);
+
+export const initializeSocketEvents = (io: Server, options: SocketOptions): void => {
+  rooms = options.store;
+  archives = options.archives;
+  images = options.images;
+  drawingLimits = options.drawingLimits;
+  rateLimiter = options.rateLimiter;
+  metrics = options.metrics;
+  moderator = options.moderator;
+  webhooks = options.webhooks;
+  maxRoomsPerClient = options.maxRoomsPerClient;
+  trustProxy = options.trustProxy;
+  inviteSecret = options.inviteSecret;
+  reconnectGracePeriod = options.reconnectGracePeriod;
+  botDelay = options.botDelay;
+
+  // Make sure the placeholder drawing can be served
+  images.save(BLANK_CANVAS).catch(error => {
+    logger.error('Error saving placeholder drawing', { error });
+  });
 
-export const initializeSocketEvents = (io: Server): void => {
   // Log when the Socket.IO server starts
-  console.log('Socket.IO server initialized');
+  logger.info('Socket.IO server initialized');
+
+  // Pick up rooms that were saved before a restart
+  if (options.resumeRooms) {
+    resumeRooms(io).catch(error => {
+      logger.error('Error resuming rooms', { error });
+    });
+  }
+
+  // Replays started on this instance, controlled from another one
+  io.on('control-replay', ({ roomId, action, speed }, callback) => {
+    callback(controlLocalReplay(io, roomId, action, speed));
+  });
 
   // Connection event
   io.on('connection', (socket: Socket) => {
-    console.log(`New connection: ${socket.id}`);
+    logger.debug('New connection', { socketId: socket.id });
+    const clientAddress = getClientAddress(socket);
+
+    // Count every error sent back, by the event that caused it
+    socket.onAnyOutgoing((event, payload) => {
+      if (event === 'error') {
+        // Made-up event names would each add a series that is never freed
+        const eventName = payload.event || getLogContext().event;
+        const label = !eventName ? 'connection' : isKnownEvent(eventName) ? eventName : 'unknown';
+        metrics.eventErrors.inc({ event: label, code: payload.code });
+      }
+    });
+
+    // Turn banned addresses away
+    const banned = rateLimiter.getBan(clientAddress);
+    if (banned) {
+      socket.emit('error', { code: 'RATE_LIMITED', message: 'Too many requests', retryAfter: banned });
+      socket.disconnect(true);
+      return;
+    }
+
+    // Drop events sent too often, then events whose payload does not match the protocol
+    socket.use(([event, payload], next) => {
+      const retryAfter = rateLimiter.consume(event, socket.id, clientAddress);
+      if (retryAfter) {
+        return socket.emit('error', { code: 'RATE_LIMITED', message: 'Too many requests', event, retryAfter });
+      }
+
+      const error = validateEvent(event, payload);
+      if (error) {
+        return socket.emit('error', error);
+      }
+      next();
+    });
 
     // Send active rooms on connection
-    emitActiveRooms(socket);
+    emitActiveRooms(socket).catch(error => {
+      logger.error('Error sending active rooms', { error, socketId: socket.id });
+    });
 
     // ROOM MANAGEMENT EVENTS
 
     // Create a new room
-    socket.on('create-room', ({ nickname, profilePic }) => {
+    onEvent(socket, 'create-room', async ({ nickname, profilePic, visibility = 'public', password }) => {
+      if (visibility === 'password' && !password) {
+        return socket.emit('error', { code: 'INVALID_PAYLOAD', message: 'Password rooms need a password', event: 'create-room' });
+      }
+      
+      const moderated = moderator.check(nickname, 'nickname');
+      if ('error' in moderated) {
+        return socket.emit('error', { ...moderated.error, event: 'create-room' });
+      }
+      
+      // Keep a single client from filling the lobby, counting rooms still being created
+      const clientRooms = roomsByClient.get(clientAddress) || new Set();
+      if (clientRooms.size >= maxRoomsPerClient) {
+        return socket.emit('error', { code: 'TOO_MANY_ROOMS', message: `Cannot have more than ${maxRoomsPerClient} rooms open` });
+      }
+      const roomId = uuidv4();
+      roomsByClient.set(clientAddress, clientRooms.add(roomId));
+      
       try {
-        const roomCode = generateRoomCode();
-        const roomId = uuidv4();
+        const roomCode = await generateRoomCode();
+        const host = createPlayer(socket.id, moderated.text, profilePic, true);
         
         // Create the room
         const room: GameRoom = {
           id: roomId,
           code: roomCode,
-          players: [{
-            id: socket.id,
-            nickname,
-            profilePic,
-            isHost: true,
-            isReady: false
-          }],
+          revision: 0,
+          players: [host],
+          spectators: [],
           gameState: 'lobby',
           currentRound: 0,
-          maxRounds: 3,
+          maxRounds: 6,
+          settings: {
+            mode: 'classic',
+            firstPhase: 'writing',
+            maxPlayers: 10,
+            maxRounds: 3,
+            roundsFromPlayers: false,
+            writingDuration: 60,
+            drawingDuration: 90,
+            maxSpectators: 20,
+            visibility
+          },
+          phaseDeadline: null,
           createdAt: new Date(),
+          startedAt: null,
+          lastActivity: new Date(),
           locked: false,
+          passwordHash: visibility === 'password' && password ? hashPassword(password) : null,
+          invites: [],
           sentences: [],
           drawings: [],
+          turnOrder: [],
+          phasePlayers: [],
+          donePlayers: [],
+          chains: [],
           presentationMode: {
             active: false,
             currentIndex: 0
-          }
+          },
+          votes: {},
+          awards: null,
+          moderation: [],
+          recordings: {},
+          lastGame: null,
+          expiryWarning: null
         };
+        if (moderated.masked) {
+          recordModeration(room, { action: 'masked', playerId: host.id, byId: null, field: 'nickname', reason: 'Contained a blocked word' });
+        }
 
-        // Add room to memory
-        rooms.set(roomId, room);
+        // Add room to the store
+        await syncRoom(io, room);
         
         // Join the socket to the room
         socket.join(roomId);
-        console.log(`Room created: ${roomCode} (${roomId}) by ${nickname}`);
+        socket.data.playerId = host.id;
+        addLogContext({ roomCode, playerId: host.id });
+        logger.info('Room created', { roomId, nickname: host.nickname });
         
         // Emit room created event
-        socket.emit('room-created', room);
+        socket.emit('room-created', {
+          ...toRoomView(room, host.id),
+          playerId: host.id,
+          reconnectToken: host.reconnectToken
+        });
+        webhooks.dispatch('room-created', { roomId, roomCode, visibility: room.settings.visibility, hostId: host.id });
         
         // Update active rooms
-        emitActiveRoomsToAll(io);
+        await emitActiveRoomsToAll(io);
       } catch (error) {
-        console.error('Error creating room:', error);
-        socket.emit('error', { message: 'Failed to create room' });
+        logger.error('Error creating room', { error });
+        clientRooms.delete(roomId);
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to create room' });
       }
     });
 
     // Join an existing room
-    socket.on('join-room', ({ roomCode, nickname, profilePic }) => {
+    onEvent(socket, 'join-room', async ({ roomCode, nickname, profilePic, password, inviteToken }) => {
       try {
         // Find the room by code
-        const room = findRoomByCode(roomCode);
+        const room = await findLockedRoomByCode(roomCode);
         
         if (!room) {
-          return socket.emit('error', { message: 'Room not found' });
+          return socket.emit('error', { code: 'ROOM_NOT_FOUND', message: 'Room not found' });
+        }
+        
+        const accessError = checkRoomAccess(room, inviteSecret, { password, inviteToken });
+        if (accessError) {
+          return socket.emit('error', { ...accessError, event: 'join-room' });
         }
         
         if (room.locked) {
-          return socket.emit('error', { message: 'Room is locked' });
+          return socket.emit('error', { code: 'ROOM_LOCKED', message: 'Room is locked' });
         }
         
         if (room.gameState !== 'lobby') {
-          return socket.emit('error', { message: 'Game has already started' });
+          return socket.emit('error', { code: 'GAME_IN_PROGRESS', message: 'Game has already started' });
+        }
+        
+        if (room.players.length >= room.settings.maxPlayers) {
+          return socket.emit('error', { code: 'ROOM_FULL', message: 'Room is full' });
+        }
+        
+        const moderated = moderator.check(nickname, 'nickname');
+        if ('error' in moderated) {
+          return socket.emit('error', { ...moderated.error, event: 'join-room' });
         }
         
         // Add player to room
-        room.players.push({
-          id: socket.id,
-          nickname,
-          profilePic,
-          isHost: false,
-          isReady: false
-        });
+        const newPlayer = createPlayer(socket.id, moderated.text, profilePic, false);
+        room.players.push(newPlayer);
+        if (moderated.masked) {
+          recordModeration(room, { action: 'masked', playerId: newPlayer.id, byId: null, field: 'nickname', reason: 'Contained a blocked word' });
+        }
+        await syncRoom(io, room);
         
         // Join the socket to the room
         socket.join(room.id);
-        console.log(`Player ${nickname} joined room: ${roomCode}`);
+        socket.data.playerId = newPlayer.id;
+        addLogContext({ roomCode, playerId: newPlayer.id });
+        logger.info('Player joined room', { nickname: newPlayer.nickname });
         
         // Emit room joined event to the player
-        socket.emit('room-joined', room);
+        socket.emit('room-joined', {
+          ...toRoomView(room, newPlayer.id),
+          playerId: newPlayer.id,
+          reconnectToken: newPlayer.reconnectToken
+        });
         
         // Emit player joined event to other players in the room
         socket.to(room.id).emit('player-joined', {
-          playerId: socket.id,
-          nickname,
+          playerId: newPlayer.id,
+          nickname: newPlayer.nickname,
           profilePic
         });
         
         // Update active rooms
-        emitActiveRoomsToAll(io);
+        await emitActiveRoomsToAll(io);
       } catch (error) {
-        console.error('Error joining room:', error);
-        socket.emit('error', { message: 'Failed to join room' });
+        logger.error('Error joining room', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to join room' });
       }
     });
 
-    // Leave a room
-    socket.on('leave-room', () => {
+    // Watch a room as a spectator, whatever state it is in
+    onEvent(socket, 'spectate-room', async ({ roomCode, nickname, password, inviteToken }) => {
+      try {
+        const room = await findLockedRoomByCode(roomCode);
+        
+        if (!room) {
+          return socket.emit('error', { code: 'ROOM_NOT_FOUND', message: 'Room not found' });
+        }
+        
+        const accessError = checkRoomAccess(room, inviteSecret, { password, inviteToken });
+        if (accessError) {
+          return socket.emit('error', { ...accessError, event: 'spectate-room' });
+        }
+        
+        if (room.spectators.length >= room.settings.maxSpectators) {
+          return socket.emit('error', { code: 'ROOM_FULL', message: 'Room has no spectator slots left' });
+        }
+        
+        const moderated = moderator.check(nickname, 'nickname');
+        if ('error' in moderated) {
+          return socket.emit('error', { ...moderated.error, event: 'spectate-room' });
+        }
+        
+        // Add spectator to room
+        const spectator: Spectator = {
+          id: uuidv4(),
+          socketId: socket.id,
+          nickname: moderated.text
+        };
+        room.spectators.push(spectator);
+        if (moderated.masked) {
+          recordModeration(room, { action: 'masked', playerId: spectator.id, byId: null, field: 'nickname', reason: 'Contained a blocked word' });
+        }
+        
+        // Let the players know who is watching
+        await syncRoom(io, room);
+        
+        // Join the socket to the spectator channel, never to the players' room
+        socket.join(spectatorChannel(room.id));
+        socket.data.spectatorId = spectator.id;
+        socket.data.roomId = room.id;
+        addLogContext({ roomCode, spectatorId: spectator.id });
+        logger.info('Spectator joined room', { nickname: spectator.nickname });
+        
+        // Emit spectating event to the spectator
+        socket.emit('spectating', {
+          room: toRoomView(room, null),
+          spectatorId: spectator.id
+        });
+        if (room.gameState === 'writing' || room.gameState === 'drawing') {
+          socket.emit('submission-count', getSubmissionCount(room));
+          socket.emit('submission-status', { round: room.currentRound, statuses: getSubmissionStatuses(room) });
+        }
+      } catch (error) {
+        logger.error('Error spectating room', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to spectate room' });
+      }
+    });
+
+    // Remove a spectator
+    onEvent(socket, 'remove-spectator', async ({ spectatorId }) => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
-        console.log(`Player ${player.nickname} leaving room: ${room.code}`);
+        // Check if player is host
+        if (!player.isHost) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host can remove spectators' });
+        }
         
-        // Remove player from the room
-        const playerIndex = room.players.findIndex(p => p.id === socket.id);
-        if (playerIndex !== -1) {
-          room.players.splice(playerIndex, 1);
+        // Find the spectator to remove
+        const spectator = room.spectators.find(s => s.id === spectatorId);
+        if (!spectator) {
+          return socket.emit('error', { code: 'SPECTATOR_NOT_FOUND', message: 'Spectator not found' });
+        }
+        
+        await removeSpectator(io, room, spectator);
+        
+        // Notify the removed spectator
+        io.to(spectator.socketId).emit('spectator-removed');
+      } catch (error) {
+        logger.error('Error removing spectator', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to remove spectator' });
+      }
+    });
+
+    // Leave a room
+    onEvent(socket, 'leave-room', async () => {
+      try {
+        const spectating = await findSpectatorRoom(socket);
+        if (spectating.room && spectating.spectator) {
+          return await removeSpectator(io, spectating.room, spectating.spectator);
         }
         
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        logger.info('Player leaving room', { nickname: player.nickname });
+        
         // Leave the socket room
         socket.leave(room.id);
         
-        // If the room is now empty, remove it
-        if (room.players.length === 0) {
-          console.log(`Room ${room.code} is empty, removing`);
-          rooms.delete(room.id);
-        } else {
-          // If the host left, assign a new host
-          if (player.isHost && room.players.length > 0) {
-            room.players[0].isHost = true;
-            console.log(`New host assigned: ${room.players[0].nickname}`);
-          }
-          
-          // Notify remaining players
-          io.to(room.id).emit('player-left', {
-            playerId: socket.id,
-            updatedRoom: room
-          });
-        }
+        // Remove player from the room
+        await removePlayer(io, room, player);
         
         // Update active rooms
-        emitActiveRoomsToAll(io);
+        await emitActiveRoomsToAll(io);
       } catch (error) {
-        console.error('Error leaving room:', error);
+        logger.error('Error leaving room', { error });
       }
     });
 
     // Toggle ready status
-    socket.on('toggle-ready', () => {
+    onEvent(socket, 'toggle-ready', async () => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
         // Toggle ready status
         player.isReady = !player.isReady;
-        
-        // Emit updated room
-        io.to(room.id).emit('room-updated', room);
+        await syncRoom(io, room);
       } catch (error) {
-        console.error('Error toggling ready status:', error);
-        socket.emit('error', { message: 'Failed to toggle ready status' });
+        logger.error('Error toggling ready status', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to toggle ready status' });
       }
     });
 
     // Start the game
-    socket.on('start-game', () => {
+    onEvent(socket, 'start-game', async () => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
         // Check if player is host
         if (!player.isHost) {
-          return socket.emit('error', { message: 'Only the host can start the game' });
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host can start the game' });
+        }
+        
+        // Games start from the lobby, a finished one has to be reset first
+        if (room.gameState !== 'lobby') {
+          return socket.emit('error', { code: 'GAME_IN_PROGRESS', message: 'Game has already started' });
         }
         
         // Check if all players are ready
         const allReady = room.players.every(p => p.isReady || p.id === player.id);
         if (!allReady) {
-          return socket.emit('error', { message: 'Not all players are ready' });
+          return socket.emit('error', { code: 'NOT_ALL_READY', message: 'Not all players are ready' });
         }
         
         // Check minimum players
         if (room.players.length < 2) {
-          return socket.emit('error', { message: 'Need at least 2 players to start' });
+          return socket.emit('error', { code: 'NOT_ENOUGH_PLAYERS', message: 'Need at least 2 players to start' });
         }
         
         // Start the game
-        room.gameState = 'writing';
         room.currentRound = 1;
+        room.gameState = getPhaseForRound(room.settings, room.currentRound);
+        room.maxRounds = getPhaseCount(room);
+        room.startedAt = new Date();
+        createChains(room);
+        beginPhase(room);
+        startPhaseTimer(io, room);
+        await syncRoom(io, room);
+        metrics.gamesStarted.inc();
         
         // Emit game started event
-        io.to(room.id).emit('game-started', room);
+        getRoomAudiences(room).forEach(({ channel, view }) => io.to(channel).emit('game-started', view));
+        emitPrompts(io, room);
+        scheduleBotTurns(io, room);
+        webhooks.dispatch('game-started', {
+          roomId: room.id,
+          roomCode: room.code,
+          mode: room.settings.mode,
+          rounds: room.maxRounds,
+          phase: room.gameState,
+          players: getWebhookPlayers(room)
+        });
         
         // Update active rooms
-        emitActiveRoomsToAll(io);
+        await emitActiveRoomsToAll(io);
       } catch (error) {
-        console.error('Error starting game:', error);
-        socket.emit('error', { message: 'Failed to start game' });
+        logger.error('Error starting game', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to start game' });
       }
     });
 
     // GAMEPLAY EVENTS
 
     // Submit a sentence
-    socket.on('submit-sentence', ({ text }) => {
+    onEvent(socket, 'submit-sentence', async ({ text, done = true }) => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
         // Check game state
         if (room.gameState !== 'writing') {
-          return socket.emit('error', { message: 'Cannot submit sentence in current game state' });
+          return socket.emit('error', { code: 'WRONG_PHASE', message: 'Cannot submit sentence in current game state' });
         }
         
-        // Add sentence
-        room.sentences.push({
-          playerId: socket.id,
-          text,
-          round: room.currentRound
-        });
-        
-        // Check if all players have submitted
-        const submittedCount = room.sentences.filter(s => s.round === room.currentRound).length;
-        if (submittedCount === room.players.length) {
-          // Move to drawing phase
-          room.gameState = 'drawing';
-          io.to(room.id).emit('phase-changed', { phase: 'drawing' });
+        // Rejected sentences are logged for the host, masked ones go through with a note
+        const moderated = moderator.check(text, 'sentence');
+        if ('error' in moderated) {
+          recordModeration(room, { action: 'rejected', playerId: player.id, byId: null, field: 'sentence', reason: moderated.error.message });
+          await syncRoom(io, room);
+          return socket.emit('error', { ...moderated.error, event: 'submit-sentence' });
+        }
+        if (moderated.masked) {
+          recordModeration(room, { action: 'masked', playerId: player.id, byId: null, field: 'sentence', reason: 'Contained a blocked word' });
         }
         
-        // Emit updated room
-        io.to(room.id).emit('room-updated', room);
+        // Add the sentence, or replace the one the player already wrote this round
+        recordSubmission(room, player.id, 'sentence', moderated.text);
+        setDone(room, player.id, done);
+        
+        await checkPhaseComplete(io, room);
+        await syncRoom(io, room);
       } catch (error) {
-        console.error('Error submitting sentence:', error);
-        socket.emit('error', { message: 'Failed to submit sentence' });
+        logger.error('Error submitting sentence', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to submit sentence' });
       }
     });
 
     // Submit a drawing
-    socket.on('submit-drawing', ({ imageData }) => {
+    onEvent(socket, 'submit-drawing', async ({ imageData, recording, done = true }) => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
         // Check game state
         if (room.gameState !== 'drawing') {
-          return socket.emit('error', { message: 'Cannot submit drawing in current game state' });
+          return socket.emit('error', { code: 'WRONG_PHASE', message: 'Cannot submit drawing in current game state' });
         }
         
-        // Add drawing
-        room.drawings.push({
-          playerId: socket.id,
-          imageData,
-          round: room.currentRound
-        });
+        if (recording) {
+          const problem = checkRecording(recording);
+          if (problem) {
+            return socket.emit('error', { code: 'INVALID_DRAWING', message: problem, event: 'submit-drawing' });
+          }
+        }
         
-        // Check if all players have submitted
-        const submittedCount = room.drawings.filter(d => d.round === room.currentRound).length;
-        if (submittedCount === room.players.length) {
-          // If we've reached max rounds, go to results
-          if (room.currentRound >= room.maxRounds) {
-            room.gameState = 'results';
-            io.to(room.id).emit('phase-changed', { phase: 'results' });
-          } else {
-            // Move to next round, writing phase
-            room.currentRound += 1;
-            room.gameState = 'writing';
-            io.to(room.id).emit('phase-changed', { phase: 'writing' });
+        // Without an image, draw the submitted or streamed strokes, unless that would hold up the server
+        const key = recordingKey(player.id, room.currentRound);
+        let image = imageData;
+        if (!image) {
+          const strokes = recording || getStreamedRecording(room, key);
+          if (!strokes) {
+            return socket.emit('error', { code: 'INVALID_PAYLOAD', message: 'Send an image or the strokes of the drawing', event: 'submit-drawing' });
           }
+          if (!canRasterize(strokes)) {
+            return socket.emit('error', { code: 'INVALID_DRAWING', message: 'The strokes are too complex to draw, send the image with them', event: 'submit-drawing' });
+          }
+          image = rasterizeRecording(strokes).data;
+        }
+        
+        // Check the image and store it, the room only keeps its ID
+        const decoded = decodeDrawing(image, drawingLimits);
+        if ('error' in decoded) {
+          return socket.emit('error', { ...decoded.error, event: 'submit-drawing' });
+        }
+        const imageId = await images.save(decoded.image);
+        
+        // A submitted recording replaces the strokes streamed so far
+        const saved = recording || strokeBuffers.get(room.id)?.get(key);
+        if (saved) {
+          room.recordings[key] = encodeRecording(saved);
+          strokeBuffers.get(room.id)?.delete(key);
+        }
+        
+        // Add the drawing, or replace the one the player already made this round
+        recordSubmission(room, player.id, 'drawing', imageId);
+        setDone(room, player.id, done);
+        
+        await checkPhaseComplete(io, room);
+        await syncRoom(io, room);
+      } catch (error) {
+        logger.error('Error submitting drawing', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to submit drawing' });
+      }
+    });
+
+    // Record strokes as they are drawn, so the drawing can be replayed even if only the image is submitted
+    onEvent(socket, 'append-strokes', async ({ width, height, strokes, reset = false }) => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        if (room.gameState !== 'drawing' || !room.phasePlayers.includes(player.id)) {
+          return socket.emit('error', { code: 'WRONG_PHASE', message: 'Cannot record strokes in current game state' });
+        }
+        
+        const key = recordingKey(player.id, room.currentRound);
+        const existing = reset ? null : getStreamedRecording(room, key);
+        const recording = appendStrokes(existing, width, height, strokes);
+        const problem = checkRecording(recording);
+        if (problem) {
+          return socket.emit('error', { code: 'INVALID_DRAWING', message: problem, event: 'append-strokes' });
+        }
+        
+        // Nobody else sees recordings before the presentation, so they stay here until the drawing is submitted
+        const buffers = strokeBuffers.get(room.id) || new Map<string, DrawingRecording>();
+        strokeBuffers.set(room.id, buffers.set(key, recording));
+      } catch (error) {
+        logger.error('Error recording strokes', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to record strokes' });
+      }
+    });
+
+    // Take back this round's submission, the player is working on it again
+    onEvent(socket, 'withdraw-submission', async () => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        if (room.gameState !== 'writing' && room.gameState !== 'drawing') {
+          return socket.emit('error', { code: 'WRONG_PHASE', message: 'Nothing to withdraw in current game state' });
+        }
+        
+        if (!hasSubmitted(room, player.id)) {
+          return socket.emit('error', { code: 'NOTHING_SUBMITTED', message: 'Nothing submitted this round' });
+        }
+        
+        removeSubmission(room, player.id);
+        setDone(room, player.id, false);
+        
+        await checkPhaseComplete(io, room);
+        await syncRoom(io, room);
+      } catch (error) {
+        logger.error('Error withdrawing submission', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to withdraw submission' });
+      }
+    });
+
+    // Mark this round's submission as final, or as still being worked on
+    onEvent(socket, 'set-done', async ({ done }) => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        if (room.gameState !== 'writing' && room.gameState !== 'drawing') {
+          return socket.emit('error', { code: 'WRONG_PHASE', message: 'Nothing to finish in current game state' });
+        }
+        
+        // Only a submission can be final
+        if (done && !hasSubmitted(room, player.id)) {
+          return socket.emit('error', { code: 'NOTHING_SUBMITTED', message: 'Submit something before marking yourself done' });
         }
         
-        // Emit updated room
-        io.to(room.id).emit('room-updated', room);
+        setDone(room, player.id, done);
+        
+        await checkPhaseComplete(io, room);
+        await syncRoom(io, room);
       } catch (error) {
-        console.error('Error submitting drawing:', error);
-        socket.emit('error', { message: 'Failed to submit drawing' });
+        logger.error('Error setting done status', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to set done status' });
       }
     });
 
     // ROOM SETTINGS EVENTS
 
     // Update room settings
-    socket.on('update-room-settings', ({ settings }) => {
+    onEvent(socket, 'update-room-settings', async ({ settings }) => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
         // Check if player is host
         if (!player.isHost) {
-          return socket.emit('error', { message: 'Only the host can update room settings' });
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host can update room settings' });
+        }
+        
+        // Settings are fixed for the whole game
+        if (room.gameState !== 'lobby') {
+          return socket.emit('error', { code: 'SETTINGS_LOCKED', message: 'Settings cannot change once the game has started' });
+        }
+        
+        if (settings.maxPlayers !== undefined && settings.maxPlayers < room.players.length) {
+          return socket.emit('error', { code: 'INVALID_PAYLOAD', message: `There are already ${room.players.length} players in the room`, event: 'update-room-settings' });
+        }
+        
+        // Password rooms always need a password, other rooms never keep one
+        const visibility = settings.visibility || room.settings.visibility;
+        if (visibility === 'password' && !settings.password && !room.passwordHash) {
+          return socket.emit('error', { code: 'INVALID_PAYLOAD', message: 'Password rooms need a password', event: 'update-room-settings' });
+        }
+        if (visibility !== 'password' && settings.password) {
+          return socket.emit('error', { code: 'INVALID_PAYLOAD', message: 'Only password rooms can have a password', event: 'update-room-settings' });
         }
         
         // Update settings
-        if (settings.maxRounds) {
-          room.maxRounds = settings.maxRounds;
+        const previous = room.settings;
+        room.settings = {
+          mode: settings.mode ?? previous.mode,
+          firstPhase: settings.firstPhase ?? previous.firstPhase,
+          maxPlayers: settings.maxPlayers ?? previous.maxPlayers,
+          maxRounds: settings.maxRounds ?? previous.maxRounds,
+          roundsFromPlayers: settings.roundsFromPlayers ?? previous.roundsFromPlayers,
+          writingDuration: settings.writingDuration ?? previous.writingDuration,
+          drawingDuration: settings.drawingDuration ?? previous.drawingDuration,
+          maxSpectators: settings.maxSpectators ?? previous.maxSpectators,
+          visibility
+        };
+        room.maxRounds = getPhaseCount(room);
+        if (settings.password) {
+          room.passwordHash = hashPassword(settings.password);
+        } else if (visibility !== 'password') {
+          room.passwordHash = null;
+        }
+        await syncRoom(io, room);
+        
+        // Tell everyone what changed
+        const changes = getSettingsChanges(previous, room.settings);
+        if (Object.keys(changes).length > 0) {
+          emitToAudience(io, room).emit('settings-changed', { changes });
         }
         
-        // Emit updated room
-        io.to(room.id).emit('room-updated', room);
+        // Unlisted rooms leave the lobby list, public ones appear in it
+        await emitActiveRoomsToAll(io);
       } catch (error) {
-        console.error('Error updating room settings:', error);
-        socket.emit('error', { message: 'Failed to update room settings' });
+        logger.error('Error updating room settings', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to update room settings' });
       }
     });
 
-    // Kick a player
-    socket.on('kick-player', ({ playerId }) => {
+    // Add a bot player to the lobby
+    onEvent(socket, 'add-bot', async () => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
         // Check if player is host
         if (!player.isHost) {
-          return socket.emit('error', { message: 'Only the host can kick players' });
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host can add bots' });
         }
         
-        // Find the player to kick
-        const playerToKick = room.players.find(p => p.id === playerId);
-        if (!playerToKick) {
-          return socket.emit('error', { message: 'Player not found' });
+        if (room.gameState !== 'lobby') {
+          return socket.emit('error', { code: 'GAME_IN_PROGRESS', message: 'Game has already started' });
         }
         
-        // Cannot kick self
-        if (playerId === socket.id) {
-          return socket.emit('error', { message: 'Cannot kick yourself' });
+        if (room.players.length >= room.settings.maxPlayers) {
+          return socket.emit('error', { code: 'ROOM_FULL', message: 'Room is full' });
         }
         
-        // Remove player from the room
-        const playerIndex = room.players.findIndex(p => p.id === playerId);
-        if (playerIndex !== -1) {
-          room.players.splice(playerIndex, 1);
+        const bot = createBot(pickBotName(room.players.map(p => p.nickname)));
+        room.players.push(bot);
+        await syncRoom(io, room);
+        logger.info('Bot added', { botId: bot.id, nickname: bot.nickname });
+        
+        io.to(room.id).emit('player-joined', { playerId: bot.id, nickname: bot.nickname, profilePic: bot.profilePic });
+        await emitActiveRoomsToAll(io);
+      } catch (error) {
+        logger.error('Error adding bot', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to add bot' });
+      }
+    });
+
+    // Kick a player
+    onEvent(socket, 'kick-player', async ({ playerId }) => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        // Check if player is host or co-host
+        if (!canModerate(player)) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host or a co-host can kick players' });
         }
         
-        // Notify the kicked player
-        io.to(playerId).emit('player-kicked');
+        // Find the player to kick
+        const playerToKick = room.players.find(p => p.id === playerId);
+        if (!playerToKick) {
+          return socket.emit('error', { code: 'PLAYER_NOT_FOUND', message: 'Player not found' });
+        }
         
-        // Make the kicked player leave the room
-        const kickedSocket = io.sockets.sockets.get(playerId);
-        if (kickedSocket) {
-          kickedSocket.leave(room.id);
+        // Cannot kick self
+        if (playerToKick.id === player.id) {
+          return socket.emit('error', { code: 'CANNOT_KICK_SELF', message: 'Cannot kick yourself' });
         }
         
-        // Notify remaining players
-        io.to(room.id).emit('room-updated', room);
+        // Co-hosts cannot kick the host
+        if (playerToKick.isHost) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Co-hosts cannot kick the host' });
+        }
         
-        // Update active rooms
-        emitActiveRoomsToAll(io);
+        await kickPlayer(io, room, playerToKick);
       } catch (error) {
-        console.error('Error kicking player:', error);
-        socket.emit('error', { message: 'Failed to kick player' });
+        logger.error('Error kicking player', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to kick player' });
       }
     });
 
-    // Toggle room lock
-    socket.on('toggle-room-lock', () => {
+    // Report a player's nickname or one of their submissions to the host
+    onEvent(socket, 'report-player', async ({ playerId, reason, chainId, entryIndex }) => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
-        // Check if player is host
-        if (!player.isHost) {
-          return socket.emit('error', { message: 'Only the host can lock/unlock the room' });
+        const reported = room.players.find(p => p.id === playerId);
+        if (!reported || reported.id === player.id) {
+          return socket.emit('error', { code: 'PLAYER_NOT_FOUND', message: 'Player not found' });
         }
         
-        // Toggle lock
-        room.locked = !room.locked;
+        // Without a submission, the report is about the nickname
+        let report: { field: 'nickname' | 'sentence' | 'drawing'; content: string } = { field: 'nickname', content: reported.nickname };
+        if (chainId !== undefined || entryIndex !== undefined) {
+          // Until the results, the only submission a player has seen is the prompt they were given
+          const entry = findChainEntry(room, chainId, entryIndex);
+          if (room.gameState !== 'results' && (!entry || entry !== getPromptFor(room, player.id))) {
+            return socket.emit('error', { code: 'WRONG_PHASE', message: 'Only your prompt can be reported before the results' });
+          }
+          if (!entry || entry.playerId !== reported.id || entry.type === 'word') {
+            return socket.emit('error', { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' });
+          }
+          report = { field: entry.type, content: entry.content };
+        }
         
-        // Notify players in the room
-        io.to(room.id).emit('room-lock-changed', {
-          roomCode: room.code,
-          locked: room.locked
+        const logged = recordModeration(room, {
+          action: 'reported',
+          playerId: reported.id,
+          byId: player.id,
+          reason,
+          ...report,
+          ...(chainId !== undefined && { chainId, entryIndex })
         });
-        
-        // Emit updated room
-        io.to(room.id).emit('room-updated', room);
-        
-        // Update active rooms
-        emitActiveRoomsToAll(io);
+        await syncRoom(io, room);
+        socket.emit('report-received', { reportId: logged.id });
       } catch (error) {
-        console.error('Error toggling room lock:', error);
-        socket.emit('error', { message: 'Failed to toggle room lock' });
+        logger.error('Error reporting player', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to report player' });
       }
     });
 
-    // PRESENTATION EVENTS
-
-    // Start presentation mode
-    socket.on('start-presentation', () => {
+    // Hide a submission from the presentation, or show it again
+    onEvent(socket, 'hide-submission', async ({ chainId, entryIndex, hidden }) => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
-        // Check if player is host
-        if (!player.isHost) {
-          return socket.emit('error', { message: 'Only the host can start presentation mode' });
+        // Check if player is host or co-host
+        if (!canModerate(player)) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host or a co-host can hide submissions' });
         }
         
-        // Check game state
         if (room.gameState !== 'results') {
-          return socket.emit('error', { message: 'Presentation mode only available in results phase' });
+          return socket.emit('error', { code: 'WRONG_PHASE', message: 'Submissions can only be hidden in the results phase' });
         }
         
-        // Start presentation mode
-        room.presentationMode = {
-          active: true,
-          currentIndex: 0
-        };
+        const entry = findChainEntry(room, chainId, entryIndex);
+        if (!entry || entry.type === 'word') {
+          return socket.emit('error', { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' });
+        }
         
-        // Emit presentation started event
-        io.to(room.id).emit('presentation-started', room.presentationMode);
+        if (hidden) {
+          entry.hidden = true;
+        } else {
+          delete entry.hidden;
+        }
+        recordModeration(room, {
+          action: hidden ? 'hidden' : 'shown',
+          playerId: entry.playerId,
+          byId: player.id,
+          field: entry.type,
+          reason: hidden ? 'Hidden from the presentation' : 'Shown in the presentation again',
+          chainId,
+          entryIndex
+        });
+        await syncRoom(io, room);
+        await hideArchivedSubmission(room, chainId, entryIndex, hidden);
       } catch (error) {
-        console.error('Error starting presentation:', error);
-        socket.emit('error', { message: 'Failed to start presentation mode' });
+        logger.error('Error hiding submission', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to hide submission' });
       }
     });
 
-    // Show a specific result
-    socket.on('show-result', (index) => {
+    // Hand the host role over to another player
+    onEvent(socket, 'transfer-host', async ({ playerId }) => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
         // Check if player is host
         if (!player.isHost) {
-          return socket.emit('error', { message: 'Only the host can control the presentation' });
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host can transfer the host role' });
         }
         
-        // Check presentation mode
-        if (!room.presentationMode?.active) {
-          return socket.emit('error', { message: 'Presentation mode not active' });
+        const newHost = room.players.find(p => p.id === playerId);
+        if (!newHost || newHost.id === player.id || newHost.isBot) {
+          return socket.emit('error', { code: 'PLAYER_NOT_FOUND', message: 'Player not found' });
         }
         
-        // Update current index
-        room.presentationMode.currentIndex = index;
+        // A disconnected host would leave nobody in charge
+        if (!newHost.connected) {
+          return socket.emit('error', { code: 'PLAYER_DISCONNECTED', message: 'Player is disconnected' });
+        }
         
-        // Emit result changed event
-        io.to(room.id).emit('result-changed', room.presentationMode);
+        setHost(room, newHost);
+        await syncRoom(io, room);
+        emitToAudience(io, room).emit('host-changed', { hostId: newHost.id, previousHostId: player.id, reason: 'transferred' });
+        logger.info('Host transferred', { hostId: newHost.id });
       } catch (error) {
-        console.error('Error showing result:', error);
-        socket.emit('error', { message: 'Failed to show result' });
+        logger.error('Error transferring host', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to transfer host' });
       }
     });
 
-    // End presentation mode
-    socket.on('end-presentation', () => {
+    // Make a player a co-host, or take the role back
+    onEvent(socket, 'set-co-host', async ({ playerId, coHost }) => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
         // Check if player is host
         if (!player.isHost) {
-          return socket.emit('error', { message: 'Only the host can end presentation mode' });
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host can appoint co-hosts' });
         }
         
-        // Check presentation mode
-        if (!room.presentationMode?.active) {
-          return socket.emit('error', { message: 'Presentation mode not active' });
+        const target = room.players.find(p => p.id === playerId);
+        if (!target || target.isHost || target.isBot) {
+          return socket.emit('error', { code: 'PLAYER_NOT_FOUND', message: 'Player not found' });
         }
         
-        // End presentation mode
-        room.presentationMode = {
-          active: false,
-          currentIndex: 0
-        };
-        
-        // Emit presentation ended event
-        io.to(room.id).emit('presentation-ended');
+        target.isCoHost = coHost;
+        await syncRoom(io, room);
       } catch (error) {
-        console.error('Error ending presentation:', error);
-        socket.emit('error', { message: 'Failed to end presentation mode' });
+        logger.error('Error setting co-host', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to set co-host' });
       }
     });
 
-    // Reset game
-    socket.on('reset-game', () => {
+    // Toggle room lock
+    onEvent(socket, 'toggle-room-lock', async () => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
         // Check if player is host
         if (!player.isHost) {
-          return socket.emit('error', { message: 'Only the host can reset the game' });
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host can lock/unlock the room' });
         }
         
-        // Reset the game
-        room.gameState = 'lobby';
-        room.currentRound = 0;
-        room.sentences = [];
-        room.drawings = [];
-        room.presentationMode = {
-          active: false,
-          currentIndex: 0
-        };
+        // Toggle lock
+        room.locked = !room.locked;
         
-        // Reset player ready status
-        room.players.forEach(p => {
-          p.isReady = false;
+        // Notify players in the room
+        emitToAudience(io, room).emit('room-lock-changed', {
+          roomCode: room.code,
+          locked: room.locked
         });
-        
-        // Emit game reset event
-        io.to(room.id).emit('game-reset');
-        io.to(room.id).emit('room-updated', room);
+        await syncRoom(io, room);
         
         // Update active rooms
-        emitActiveRoomsToAll(io);
+        await emitActiveRoomsToAll(io);
       } catch (error) {
-        console.error('Error resetting game:', error);
-        socket.emit('error', { message: 'Failed to reset game' });
+        logger.error('Error toggling room lock', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to toggle room lock' });
       }
     });
 
-    // Get active rooms
-    socket.on('get-active-rooms', () => {
-      emitActiveRooms(socket);
-    });
-
-    // Handle disconnect
-    socket.on('disconnect', () => {
-      console.log(`Disconnection: ${socket.id}`);
-      
+    // Create an invite that lets its holder in without the room password
+    onEvent(socket, 'create-invite', async ({ expiresIn = DEFAULT_INVITE_LIFETIME }) => {
       try {
-        const { room, player } = findPlayerRoom(socket.id);
+        const { room, player } = await findPlayerRoom(socket);
         if (!room || !player) return;
         
-        console.log(`Player ${player.nickname} disconnected from room: ${room.code}`);
-        
-        // Remove player from the room
-        const playerIndex = room.players.findIndex(p => p.id === socket.id);
-        if (playerIndex !== -1) {
-          room.players.splice(playerIndex, 1);
+        // Check if player is host
+        if (!player.isHost) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host can create invites' });
         }
         
-        // If the room is now empty, remove it
-        if (room.players.length === 0) {
-          console.log(`Room ${room.code} is empty, removing`);
-          rooms.delete(room.id);
-        } else {
-          // If the host left, assign a new host
-          if (player.isHost && room.players.length > 0) {
-            room.players[0].isHost = true;
-            console.log(`New host assigned: ${room.players[0].nickname}`);
-          }
-          
-          // Notify remaining players
-          io.to(room.id).emit('player-left', {
-            playerId: socket.id,
-            updatedRoom: room
-          });
+        // Forget invites that expired in the meantime
+        room.invites = room.invites.filter(i => i.expiresAt > Date.now());
+        
+        const invite = { id: uuidv4(), createdBy: player.id, expiresAt: Date.now() + expiresIn * 1000 };
+        room.invites.push(invite);
+        await syncRoom(io, room);
+        
+        // Only the host gets the token to share
+        socket.emit('invite-created', {
+          inviteId: invite.id,
+          token: createInviteToken(inviteSecret, { roomId: room.id, inviteId: invite.id, expiresAt: invite.expiresAt }),
+          expiresAt: invite.expiresAt
+        });
+      } catch (error) {
+        logger.error('Error creating invite', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to create invite' });
+      }
+    });
+
+    // Revoke an invite, its token stops working right away
+    onEvent(socket, 'revoke-invite', async ({ inviteId }) => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        // Check if player is host
+        if (!player.isHost) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host can revoke invites' });
+        }
+        
+        if (!room.invites.some(i => i.id === inviteId)) {
+          return socket.emit('error', { code: 'INVITE_NOT_FOUND', message: 'Invite not found' });
+        }
+        
+        room.invites = room.invites.filter(i => i.id !== inviteId);
+        await syncRoom(io, room);
+      } catch (error) {
+        logger.error('Error revoking invite', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to revoke invite' });
+      }
+    });
+
+    // PRESENTATION EVENTS
+
+    // Start presentation mode
+    onEvent(socket, 'start-presentation', async () => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        // Check if player is host or co-host
+        if (!canModerate(player)) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host or a co-host can start presentation mode' });
+        }
+        
+        // Check game state
+        if (room.gameState !== 'results') {
+          return socket.emit('error', { code: 'WRONG_PHASE', message: 'Presentation mode only available in results phase' });
+        }
+        
+        // Start presentation mode
+        room.presentationMode = {
+          active: true,
+          currentIndex: 0
+        };
+        await syncRoom(io, room);
+        
+        // Emit presentation started event
+        emitToAudience(io, room).emit('presentation-started', room.presentationMode);
+      } catch (error) {
+        logger.error('Error starting presentation', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to start presentation mode' });
+      }
+    });
+
+    // Show a specific result
+    onEvent(socket, 'show-result', async (index) => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        // Check if player is host or co-host
+        if (!canModerate(player)) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host or a co-host can control the presentation' });
+        }
+        
+        // Check presentation mode
+        if (!room.presentationMode?.active) {
+          return socket.emit('error', { code: 'PRESENTATION_NOT_ACTIVE', message: 'Presentation mode not active' });
+        }
+        
+        // Check the result exists
+        if (index >= room.chains.length) {
+          return socket.emit('error', { code: 'INVALID_PAYLOAD', message: 'Result index out of range' });
+        }
+        
+        // Update current index, a replay of the previous chain stops
+        await stopReplay(io, room);
+        room.presentationMode.currentIndex = index;
+        await syncRoom(io, room);
+        
+        // Emit result changed event
+        emitToAudience(io, room).emit('result-changed', room.presentationMode);
+      } catch (error) {
+        logger.error('Error showing result', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to show result' });
+      }
+    });
+
+    // End presentation mode
+    onEvent(socket, 'end-presentation', async () => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        // Check if player is host or co-host
+        if (!canModerate(player)) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host or a co-host can end presentation mode' });
+        }
+        
+        // Check presentation mode
+        if (!room.presentationMode?.active) {
+          return socket.emit('error', { code: 'PRESENTATION_NOT_ACTIVE', message: 'Presentation mode not active' });
+        }
+        
+        // End presentation mode and hand out the awards
+        await stopReplay(io, room);
+        room.presentationMode = {
+          active: false,
+          currentIndex: 0
+        };
+        room.awards = computeAwards(room);
+        await syncRoom(io, room);
+        
+        // Emit presentation ended event
+        emitToAudience(io, room).emit('presentation-ended');
+        emitToAudience(io, room).emit('awards', room.awards);
+      } catch (error) {
+        logger.error('Error ending presentation', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to end presentation mode' });
+      }
+    });
+
+    // Play back how a drawing of the chain on screen was made, for everyone at the same pace
+    onEvent(socket, 'replay-drawing', async ({ chainIndex, entryIndex, speed = 1 }) => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        // Check if player is host or co-host
+        if (!canModerate(player)) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host or a co-host can control the presentation' });
+        }
+        
+        // Check presentation mode
+        if (!room.presentationMode?.active) {
+          return socket.emit('error', { code: 'PRESENTATION_NOT_ACTIVE', message: 'Presentation mode not active' });
+        }
+        
+        // Only the chain on screen can be replayed
+        if (chainIndex !== room.presentationMode.currentIndex) {
+          return socket.emit('error', { code: 'INVALID_PAYLOAD', message: 'Can only replay drawings of the chain being shown' });
+        }
+        
+        const chain = room.chains[chainIndex];
+        const entry = chain?.entries[entryIndex];
+        if (!entry || entry.type !== 'drawing' || entry.hidden) {
+          return socket.emit('error', { code: 'SUBMISSION_NOT_FOUND', message: 'Drawing not found' });
+        }
+        
+        const encoded = room.recordings[recordingKey(entry.playerId, entry.round)];
+        const drawing = room.drawings.find(d => d.playerId === entry.playerId && d.round === entry.round);
+        if (!encoded || !drawing?.recorded) {
+          return socket.emit('error', { code: 'RECORDING_NOT_FOUND', message: 'This drawing has no recorded strokes' });
+        }
+        
+        await startReplay(io, room, chain.id, entryIndex, decodeRecording(encoded), speed);
+      } catch (error) {
+        logger.error('Error replaying drawing', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to replay drawing' });
+      }
+    });
+
+    // Pause, resume, stop or change the speed of the running replay
+    onEvent(socket, 'control-replay', async ({ action, speed }) => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        // Check if player is host or co-host
+        if (!canModerate(player)) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host or a co-host can control the presentation' });
+        }
+        
+        if (action === 'set-speed' && speed === undefined) {
+          return socket.emit('error', { code: 'INVALID_PAYLOAD', message: 'A speed is required to change it' });
+        }
+        
+        // The replay may be running on the instance the host was connected to when it started
+        const handled = controlLocalReplay(io, room.id, action, speed)
+          || (await getOtherInstances(io) > 0
+            && (await io.serverSideEmitWithAck('control-replay', { roomId: room.id, action, speed })).some(Boolean));
+        if (!handled) {
+          return socket.emit('error', { code: 'REPLAY_NOT_ACTIVE', message: 'No drawing is being replayed' });
+        }
+      } catch (error) {
+        logger.error('Error controlling replay', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to control replay' });
+      }
+    });
+
+    // React to a step of the chain being presented
+    onEvent(socket, 'cast-vote', async ({ chainIndex, entryIndex, kind }) => {
+      try {
+        // Players and spectators can both vote
+        const { room: playerRoom, player } = await findPlayerRoom(socket);
+        const { room: spectatorRoom, spectator } = await findSpectatorRoom(socket);
+        const room = playerRoom || spectatorRoom;
+        const voter = player || spectator;
+        if (!room || !voter) {
+          return socket.emit('error', { code: 'NOT_IN_ROOM', message: 'Not in a room' });
+        }
+        
+        // Check presentation mode
+        if (!room.presentationMode?.active) {
+          return socket.emit('error', { code: 'PRESENTATION_NOT_ACTIVE', message: 'Presentation mode not active' });
+        }
+        
+        // Only the chain on screen can be voted on
+        if (chainIndex !== room.presentationMode.currentIndex) {
+          return socket.emit('error', { code: 'INVALID_PAYLOAD', message: 'Can only vote on the chain being shown' });
+        }
+        
+        const votes = toggleVote(room, voter.id, chainIndex, entryIndex, kind);
+        if (!votes) {
+          return socket.emit('error', { code: 'INVALID_PAYLOAD', message: 'Chain step not found' });
+        }
+        await syncRoom(io, room);
+        
+        // Emit the new tally
+        emitToAudience(io, room).emit('votes-updated', votes);
+      } catch (error) {
+        logger.error('Error casting vote', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to cast vote' });
+      }
+    });
+
+    // Reset game
+    onEvent(socket, 'reset-game', async () => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        // Check if player is host
+        if (!player.isHost) {
+          return socket.emit('error', { code: 'NOT_HOST', message: 'Only the host can reset the game' });
         }
         
+        // Reset the game
+        clearPhaseTimer(room);
+        await stopReplay(io, room);
+        room.gameState = 'lobby';
+        room.currentRound = 0;
+        room.maxRounds = getPhaseCount(room);
+        room.sentences = [];
+        releaseDrawings(room.drawings);
+        room.drawings = [];
+        room.turnOrder = [];
+        room.phasePlayers = [];
+        room.donePlayers = [];
+        room.chains = [];
+        room.startedAt = null;
+        room.presentationMode = {
+          active: false,
+          currentIndex: 0
+        };
+        room.votes = {};
+        room.awards = null;
+        room.recordings = {};
+        strokeBuffers.delete(room.id);
+        room.lastGame = null;
+        
+        // Reset player ready status
+        room.players.forEach(p => {
+          p.isReady = false;
+        });
+        
+        // Emit game reset event
+        emitToAudience(io, room).emit('game-reset');
+        await syncRoom(io, room);
+        
         // Update active rooms
-        emitActiveRoomsToAll(io);
+        await emitActiveRoomsToAll(io);
+      } catch (error) {
+        logger.error('Error resetting game', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to reset game' });
+      }
+    });
+
+    // Get active rooms
+    onEvent(socket, 'get-active-rooms', async () => {
+      try {
+        await emitActiveRooms(socket);
+      } catch (error) {
+        logger.error('Error getting active rooms', { error });
+      }
+    });
+
+    // Send the full room state to a client that missed patches
+    onEvent(socket, 'sync-room', async () => {
+      try {
+        const { room, player } = await findPlayerRoom(socket);
+        if (room && player) {
+          return socket.emit('room-updated', toRoomView(room, player.id));
+        }
+        
+        const spectating = await findSpectatorRoom(socket);
+        if (spectating.room) {
+          return socket.emit('room-updated', toRoomView(spectating.room, null));
+        }
+        
+        socket.emit('error', { code: 'NOT_IN_ROOM', message: 'Not in a room' });
+      } catch (error) {
+        logger.error('Error syncing room', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to sync room' });
+      }
+    });
+
+    // Rejoin a room after a refresh or a dropped connection
+    onEvent(socket, 'rejoin-room', async ({ reconnectToken }) => {
+      try {
+        const { room, player } = await findPlayerByToken(reconnectToken);
+        if (!room || !player) {
+          return socket.emit('error', { code: 'SESSION_EXPIRED', message: 'Session expired' });
+        }
+        
+        clearDisconnectTimer(player.id);
+        
+        // Detach the previous socket if it is somehow still around
+        if (player.socketId !== socket.id) {
+          io.in(player.socketId).socketsLeave(room.id);
+        }
+        
+        // Bind the player to the new socket
+        player.socketId = socket.id;
+        player.connected = true;
+        await syncRoom(io, room);
+        socket.join(room.id);
+        socket.data.playerId = player.id;
+        addLogContext({ roomCode: room.code, playerId: player.id });
+        logger.info('Player rejoined room', { nickname: player.nickname });
+        
+        // Send the full state back to the player
+        socket.emit('room-rejoined', {
+          room: toRoomView(room, player.id),
+          playerId: player.id,
+          prompt: room.donePlayers.includes(player.id) ? null : buildPrompt(room, player.id)
+        });
+        
+        // Notify other players
+        socket.to(room.id).emit('player-reconnected', { playerId: player.id });
       } catch (error) {
-        console.error('Error handling disconnect:', error);
+        logger.error('Error rejoining room', { error });
+        socket.emit('error', { code: 'INTERNAL_ERROR', message: 'Failed to rejoin room' });
       }
     });
+
+    // Handle disconnect
+    socket.on('disconnect', () => withRoomLocks(async () => {
+      logger.debug('Disconnection', { socketId: socket.id });
+      rateLimiter.forgetSocket(socket.id);
+      
+      try {
+        // Spectators have no seat to keep
+        const spectating = await findSpectatorRoom(socket);
+        if (spectating.room && spectating.spectator) {
+          return await removeSpectator(io, spectating.room, spectating.spectator);
+        }
+        
+        const { room, player } = await findPlayerRoom(socket);
+        if (!room || !player) return;
+        
+        logger.info('Player disconnected from room', { roomCode: room.code, playerId: player.id });
+        
+        // Keep the seat for a while so the player can rejoin
+        player.connected = false;
+        io.to(room.id).emit('player-disconnected', { playerId: player.id });
+        
+        // Someone who is still here takes over as host, if anyone is
+        const newHost = player.isHost ? findNextHost(room) : undefined;
+        if (newHost) {
+          setHost(room, newHost);
+        }
+        await syncRoom(io, room);
+        if (newHost) {
+          emitToAudience(io, room).emit('host-changed', { hostId: newHost.id, previousHostId: player.id, reason: 'disconnected' });
+        }
+        
+        scheduleRemoval(io, room.id, player.id, reconnectGracePeriod);
+      } catch (error) {
+        logger.error('Error handling disconnect', { error });
+      }
+    }));
+  });
+};
+
+// Listen to a client event, handling it with the event's log context and recording its payload size and latency
+const onEvent = <E extends keyof ClientToServerEvents>(
+  socket: Socket,
+  event: E,
+  handler: (...args: Parameters<ClientToServerEvents[E]>) => Promise<unknown>
+): void => {
+  const listener = (...args: Parameters<ClientToServerEvents[E]>): void => {
+    metrics.payloadSize.observe({ event }, getPayloadSize(args[0]));
+    const stopTimer = metrics.eventDuration.startTimer({ event });
+    const context = { event, socketId: socket.id, playerId: socket.data.playerId, spectatorId: socket.data.spectatorId };
+
+    withLogContext(context, () => withRoomLocks(() => handler(...args)))
+      .catch(error => logger.error('Unhandled error in event handler', { error }))
+      .finally(stopTimer);
+  };
+  // Socket.IO cannot resolve its listener type for a generic event name, so name the one it expects for E
+  socket.on(event, listener as Parameters<typeof socket.on<E>>[1]);
+};
+
+// Create a new player bound to a socket
+const createPlayer = (socketId: string, nickname: string, profilePic: string, isHost: boolean): GamePlayer => ({
+  id: uuidv4(),
+  socketId,
+  nickname,
+  profilePic,
+  isHost,
+  isCoHost: false,
+  isBot: false,
+  isReady: false,
+  connected: true,
+  reconnectToken: uuidv4()
+});
+
+// Create a bot player, always ready and never disconnected
+const createBot = (nickname: string): GamePlayer => ({
+  ...createPlayer('', nickname, '', false),
+  isBot: true,
+  isReady: true
+});
+
+// Broadcast to both the players and the spectators of a room
+export const emitToAudience = (io: Server, room: Pick<GameRoom, 'id'>) => io.to([room.id, spectatorChannel(room.id)]);
+
+// Save a room under the next revision and send every player and the spectators the changes to their own view
+const syncRoom = async (io: Server, room: GameRoom): Promise<void> => {
+  const previous = roomViews.get(room.id);
+  room.revision += 1;
+  room.lastActivity = new Date();
+
+  const audiences = getRoomAudiences(room).map(audience => ({ ...audience, view: toSnapshot(audience.view) }));
+  await rooms.set(room);
+  roomViews.set(room.id, {
+    revision: room.revision,
+    views: Object.fromEntries(audiences.map(({ key, view }) => [key, view]))
+  });
+
+  audiences.forEach(({ key, channel, view }) => {
+    // Without the previous view (another instance or a restart changed the room) send it whole
+    const previousView = previous?.revision === room.revision - 1 ? previous.views[key] : null;
+    if (previousView) {
+      io.to(channel).emit('room-patch', { revision: room.revision, operations: diffSnapshots(previousView, view) });
+    } else {
+      io.to(channel).emit('room-updated', view);
+    }
+  });
+};
+
+// Count the submissions of the players taking part in the current phase
+const getSubmissionCount = (room: GameRoom): { submitted: number; total: number } => ({
+  submitted: room.phasePlayers.filter(playerId => hasSubmitted(room, playerId)).length,
+  total: room.phasePlayers.length
+});
+
+// Remove a spectator from a room
+const removeSpectator = async (io: Server, room: GameRoom, spectator: Spectator): Promise<void> => {
+  room.spectators = room.spectators.filter(s => s.id !== spectator.id);
+  io.in(spectator.socketId).socketsLeave(spectatorChannel(room.id));
+  logger.info('Spectator left room', { roomCode: room.code, spectatorId: spectator.id });
+
+  // Update the spectator list shown to the host
+  await syncRoom(io, room);
+};
+
+// Remove a player from a room, handing over host or deleting the room as needed
+const removePlayer = async (io: Server, room: GameRoom, player: GamePlayer): Promise<void> => {
+  clearDisconnectTimer(player.id);
+
+  const playerIndex = room.players.findIndex(p => p.id === player.id);
+  if (playerIndex !== -1) {
+    room.players.splice(playerIndex, 1);
+  }
+
+  // If the room is now empty, or only bots are left, remove it
+  if (room.players.every(p => p.isBot)) {
+    logger.info('Room is empty, removing', { roomCode: room.code });
+    await deleteRoom(io, room, 'Everyone left');
+    return;
+  }
+
+  // If the host left, assign a new host, falling back to a disconnected player when nobody else is here
+  const newHost = player.isHost ? findNextHost(room) || room.players.find(p => !p.isBot) : undefined;
+  if (newHost) {
+    setHost(room, newHost);
+    logger.info('New host assigned', { roomCode: room.code, hostId: newHost.id });
+  }
+
+  // Notify remaining players
+  io.to(room.id).emit('player-left', { playerId: player.id });
+  if (room.gameState === 'writing' || room.gameState === 'drawing') {
+    await continueWithout(io, room, player.id);
+  }
+  await syncRoom(io, room);
+  if (newHost) {
+    emitToAudience(io, room).emit('host-changed', { hostId: newHost.id, previousHostId: player.id, reason: 'left' });
+  }
+};
+
+// Keep a game going after a player leaves mid-phase, or end it when too few players are left
+const continueWithout = async (io: Server, room: GameRoom, playerId: string): Promise<void> => {
+  if (room.players.length < 2) {
+    const message = 'Not enough players left, the game is over';
+    emitToAudience(io, room).emit('game-ended', { reason: 'not-enough-players', message });
+    await advancePhase(io, room, true);
+    return;
+  }
+
+  // The departed player's turn is filled with a placeholder (or their draft), so the phase can still complete
+  fillMissingSubmissions(room, [playerId]);
+  await checkPhaseComplete(io, room);
+};
+
+// Find a chain entry by chain ID and position
+const findChainEntry = (room: GameRoom, chainId?: string, entryIndex?: number): ChainEntry | null => {
+  const chain = room.chains.find(c => c.id === chainId);
+  return (chain && entryIndex !== undefined && chain.entries[entryIndex]) || null;
+};
+
+// Hosts and co-hosts can run the presentation and kick players
+const canModerate = (player: GamePlayer): boolean => player.isHost || player.isCoHost;
+
+// Connected player to promote when the host goes away, co-hosts first and never a bot
+const findNextHost = (room: GameRoom): GamePlayer | undefined => {
+  const candidates = room.players.filter(p => p.connected && !p.isHost && !p.isBot);
+  return candidates.find(p => p.isCoHost) || candidates[0];
+};
+
+// Make a player the only host, they stop being a co-host
+const setHost = (room: GameRoom, newHost: GamePlayer): void => {
+  room.players.forEach(p => {
+    p.isHost = p.id === newHost.id;
+  });
+  newHost.isCoHost = false;
+};
+
+// Replay a drawing to everyone in the room, in place of any replay already running
+const startReplay = async (
+  io: Server,
+  room: GameRoom,
+  chainId: string,
+  entryIndex: number,
+  recording: DrawingRecording,
+  speed: number
+): Promise<void> => {
+  await stopReplay(io, room);
+
+  const id = uuidv4();
+  const replay = new DrawingReplay(recording, {
+    speed,
+    interval: REPLAY_FRAME_INTERVAL,
+    onFrame: frame => emitToAudience(io, room).emit('replay-frame', { replayId: id, ...frame }),
+    onEnd: () => {
+      replays.delete(room.id);
+      emitToAudience(io, room).emit('replay-ended', { replayId: id, stopped: false });
+    }
+  });
+  replays.set(room.id, { id, replay });
+
+  emitToAudience(io, room).emit('replay-started', {
+    replayId: id,
+    chainId,
+    entryIndex,
+    width: recording.width,
+    height: recording.height,
+    duration: replay.duration,
+    speed,
+    strokes: recording.strokes.map(({ color, width }) => ({ color, width }))
+  });
+  replay.start();
+};
+
+// Cut the room's replay short, if one is running here or on another instance
+const stopReplay = async (io: Server, room: GameRoom): Promise<void> => {
+  if (!controlLocalReplay(io, room.id, 'stop') && await getOtherInstances(io) > 0) {
+    await io.serverSideEmitWithAck('control-replay', { roomId: room.id, action: 'stop' }).catch(error => {
+      logger.warn('Not every instance answered a replay stop', { roomCode: room.code, error });
+    });
+  }
+};
+
+// Pause, resume, stop or change the speed of the room's replay, if it runs on this instance
+const controlLocalReplay = (io: Server, roomId: string, action: ReplayAction, speed?: number): boolean => {
+  const running = replays.get(roomId);
+  if (!running) return false;
+
+  if (action === 'stop') {
+    running.replay.stop();
+    replays.delete(roomId);
+    emitToAudience(io, { id: roomId }).emit('replay-ended', { replayId: running.id, stopped: true });
+    return true;
+  }
+
+  if (action === 'pause') {
+    running.replay.pause();
+  } else if (action === 'resume') {
+    running.replay.resume();
+  } else if (speed !== undefined) {
+    running.replay.setSpeed(speed);
+  }
+  emitToAudience(io, { id: roomId }).emit('replay-state', { replayId: running.id, ...running.replay.state });
+  return true;
+};
+
+// Number of other instances sharing the rooms, none without cluster mode
+const getOtherInstances = async (io: Server): Promise<number> => (await io.of('/').adapter.serverCount()) - 1;
+
+// Players as described to webhooks, without anything they could use to take over a seat
+const getWebhookPlayers = (room: GameRoom): WebhookPlayer[] => {
+  return room.players.map(({ id, nickname, isBot }) => ({ id, nickname, isBot }));
+};
+
+// Remove a player from a room against their will
+export const kickPlayer = async (io: Server, room: GameRoom, player: GamePlayer): Promise<void> => {
+  if (!player.isBot) {
+    // Notify the kicked player
+    io.to(player.socketId).emit('player-kicked');
+
+    // Make the kicked player leave the room, whichever server their socket is on
+    io.in(player.socketId).socketsLeave(room.id);
+  }
+
+  await removePlayer(io, room, player);
+  await emitActiveRoomsToAll(io);
+};
+
+// Close a room for everyone in it, telling them why
+export const closeRoom = async (io: Server, room: GameRoom, message: string): Promise<void> => {
+  logger.info('Closing room', { roomCode: room.code, reason: message });
+
+  emitToAudience(io, room).emit('room-closed', { roomCode: room.code, message });
+  io.in(room.id).socketsLeave(room.id);
+  await deleteRoom(io, room, message);
+  await emitActiveRoomsToAll(io);
+};
+
+// Send a message from the server operators to every connected socket
+export const broadcastNotice = (io: Server, message: string): void => {
+  io.emit('server-notice', { message });
+};
+
+// Delete a room and stop everything still scheduled for it
+const deleteRoom = async (io: Server, room: GameRoom, reason: string): Promise<void> => {
+  clearPhaseTimer(room);
+  await stopReplay(io, room);
+  room.players.forEach(p => {
+    clearDisconnectTimer(p.id);
+    clearBotTimer(p.id);
+  });
+  roomViews.delete(room.id);
+  strokeBuffers.delete(room.id);
+  roomsByClient.forEach((roomIds, address) => {
+    roomIds.delete(room.id);
+    if (roomIds.size === 0) roomsByClient.delete(address);
+  });
+  await rooms.delete(room.id);
+  releaseDrawings(room.drawings);
+
+  // Nothing left to watch
+  io.to(spectatorChannel(room.id)).emit('spectator-removed');
+  io.in(spectatorChannel(room.id)).socketsLeave(spectatorChannel(room.id));
+  webhooks.dispatch('room-closed', { roomId: room.id, roomCode: room.code, reason });
+};
+
+// Remove a disconnected player once the grace period is over, unless they rejoin
+const scheduleRemoval = (io: Server, roomId: string, playerId: string, delay: number): void => {
+  clearDisconnectTimer(playerId);
+
+  disconnectTimers.set(playerId, setTimeout(() => withRoomLocks(async () => {
+    disconnectTimers.delete(playerId);
+
+    try {
+      // The player may have rejoined or left in the meantime
+      const room = await getLockedRoom(roomId);
+      const player = room?.players.find(p => p.id === playerId);
+      if (!room || !player || player.connected) return;
+
+      logger.info('Player did not reconnect', { roomCode: room.code, playerId: player.id });
+      await removePlayer(io, room, player);
+      await emitActiveRoomsToAll(io);
+    } catch (error) {
+      logger.error('Error removing disconnected player', { error });
+    }
+  }), delay));
+};
+
+// Restart the timers of rooms loaded from the store after a restart
+const resumeRooms = async (io: Server): Promise<void> => {
+  for (const { id } of await rooms.list()) {
+    await withRoomLocks(async () => {
+      const room = await getLockedRoom(id);
+      if (!room) return;
+
+      // Nobody is connected yet, give everyone the usual time to rejoin
+      room.players.filter(p => !p.isBot).forEach(p => {
+        p.connected = false;
+        scheduleRemoval(io, room.id, p.id, reconnectGracePeriod);
+      });
+
+      if (room.phaseDeadline) {
+        schedulePhaseTimer(io, room.id, room.phaseDeadline);
+      }
+      if (room.gameState === 'writing' || room.gameState === 'drawing') {
+        scheduleBotTurns(io, room);
+      }
+      await rooms.set(room);
+    });
+  }
+};
+
+// Cancel the pending removal of a disconnected player
+const clearDisconnectTimer = (playerId: string): void => {
+  const timer = disconnectTimers.get(playerId);
+  if (timer) {
+    clearTimeout(timer);
+    disconnectTimers.delete(playerId);
+  }
+};
+
+// Strokes streamed for a drawing so far, or the ones saved with its last submission
+const getStreamedRecording = (room: GameRoom, key: string): DrawingRecording | null => {
+  return strokeBuffers.get(room.id)?.get(key) || (room.recordings[key] ? decodeRecording(room.recordings[key]) : null);
+};
+
+// Store a submission for the current round and add it to the player's chain, replacing any earlier one
+const recordSubmission = (
+  room: GameRoom,
+  playerId: string,
+  type: Exclude<ChainEntryType, 'word'>,
+  content: string,
+  placeholder = false
+): void => {
+  removeSubmission(room, playerId);
+
+  if (type === 'sentence') {
+    room.sentences.push({ playerId, text: content, round: room.currentRound });
+  } else {
+    const recorded = !placeholder && !!room.recordings[recordingKey(playerId, room.currentRound)];
+    room.drawings.push({ playerId, imageId: content, round: room.currentRound, ...(recorded && { recorded }) });
+  }
+
+  addChainEntry(room, {
+    type,
+    playerId,
+    content,
+    round: room.currentRound,
+    ...(placeholder && { placeholder })
+  });
+};
+
+// Drop a player's submission for the current round
+const removeSubmission = (room: GameRoom, playerId: string): void => {
+  const isOther = (s: { playerId: string; round: number }) => s.playerId !== playerId || s.round !== room.currentRound;
+  room.sentences = room.sentences.filter(isOther);
+  releaseDrawings(room.drawings.filter(d => !isOther(d)));
+  room.drawings = room.drawings.filter(isOther);
+  removeChainEntry(room, playerId);
+};
+
+// Let go of the stored images of drawings a room no longer holds, placeholders were never saved for them
+const releaseDrawings = (drawings: Drawing[]): void => {
+  drawings
+    .filter(d => d.imageId !== BLANK_CANVAS_ID)
+    .forEach(d => images.release(d.imageId).catch(error => {
+      logger.error('Error releasing drawing', { imageId: d.imageId, error });
+    }));
+};
+
+// Mark a player's submission for the current phase as final or not
+const setDone = (room: GameRoom, playerId: string, done: boolean): void => {
+  room.donePlayers = room.donePlayers.filter(id => id !== playerId);
+  if (done) {
+    room.donePlayers.push(playerId);
+  }
+};
+
+// Fill in placeholders for everyone (or the given players) who has not submitted in the current phase,
+// whatever they have is final from now on
+const fillMissingSubmissions = (room: GameRoom, playerIds: string[] = room.turnOrder): void => {
+  const type = room.gameState === 'writing' ? 'sentence' : 'drawing';
+  const content = type === 'sentence' ? EMPTY_SENTENCE : BLANK_CANVAS_ID;
+
+  playerIds
+    .filter(playerId => !hasSubmitted(room, playerId))
+    .forEach(playerId => recordSubmission(room, playerId, type, content, true));
+  playerIds.forEach(playerId => setDone(room, playerId, true));
+};
+
+// Start a phase with the players still in the room, the slots of departed players get placeholders right away
+const beginPhase = (room: GameRoom): void => {
+  room.phasePlayers = room.turnOrder.filter(playerId => room.players.some(p => p.id === playerId));
+  room.donePlayers = [];
+  fillMissingSubmissions(room, room.turnOrder.filter(playerId => !room.phasePlayers.includes(playerId)));
+};
+
+// Whether everyone who was playing when the phase began is done
+const isPhaseComplete = (room: GameRoom): boolean => {
+  return room.phasePlayers.every(playerId => room.donePlayers.includes(playerId));
+};
+
+// Close the phase once everyone is done, otherwise tell the room who is still working
+const checkPhaseComplete = async (io: Server, room: GameRoom): Promise<void> => {
+  if (isPhaseComplete(room)) {
+    await advancePhase(io, room);
+    return;
+  }
+  emitToAudience(io, room).emit('submission-count', getSubmissionCount(room));
+  emitToAudience(io, room).emit('submission-status', { round: room.currentRound, statuses: getSubmissionStatuses(room) });
+};
+
+// Close the current phase and move the room to the next one, or straight to the results when finishing early
+const advancePhase = async (io: Server, room: GameRoom, finish = false): Promise<void> => {
+  clearPhaseTimer(room);
+  fillMissingSubmissions(room);
+  strokeBuffers.delete(room.id);
+
+  if (finish || room.currentRound >= room.maxRounds) {
+    // If we've reached max rounds, go to results
+    room.gameState = 'results';
+  } else {
+    // Move to next round, in the phase the game mode plays it in
+    room.currentRound += 1;
+    room.gameState = getPhaseForRound(room.settings, room.currentRound);
+    beginPhase(room);
+  }
+
+  startPhaseTimer(io, room);
+
+  if (room.gameState === 'results') {
+    metrics.gamesCompleted.inc();
+    const archive = await archiveGame(room);
+    room.lastGame = archive && { gameId: archive.id, downloadToken: archive.downloadToken };
+    emitToAudience(io, room).emit('phase-changed', { phase: 'results', deadline: null, chains: room.chains });
+    webhooks.dispatch('results', {
+      roomId: room.id,
+      roomCode: room.code,
+      game: room.lastGame,
+      rounds: room.currentRound,
+      chainCount: room.chains.length,
+      players: getWebhookPlayers(room)
+    });
+  } else {
+    emitToAudience(io, room).emit('phase-changed', { phase: room.gameState, deadline: room.phaseDeadline });
+    emitPrompts(io, room);
+    scheduleBotTurns(io, room);
+    webhooks.dispatch('phase-changed', {
+      roomId: room.id,
+      roomCode: room.code,
+      phase: room.gameState,
+      round: room.currentRound,
+      deadline: room.phaseDeadline
+    });
+  }
+};
+
+// Have every bot of the current phase submit once its delay is over
+const scheduleBotTurns = (io: Server, room: GameRoom): void => {
+  const round = room.currentRound;
+
+  room.players
+    .filter(p => p.isBot && room.phasePlayers.includes(p.id) && !room.donePlayers.includes(p.id))
+    .forEach(bot => {
+      clearBotTimer(bot.id);
+      botTimers.set(bot.id, setTimeout(() => {
+        botTimers.delete(bot.id);
+        withRoomLocks(() => playBotTurn(io, room.id, bot.id, round)).catch(error => {
+          logger.error('Error playing bot turn', { roomCode: room.code, botId: bot.id, error });
+        });
+      }, botDelay * (0.5 + Math.random())));
+    });
+};
+
+// Submit a sentence from the corpus or a generated drawing for a bot
+const playBotTurn = async (io: Server, roomId: string, botId: string, round: number): Promise<void> => {
+  // The room may have been deleted, moved on or lost the bot in the meantime
+  const room = await getLockedRoom(roomId);
+  if (!room || room.currentRound !== round || room.donePlayers.includes(botId)) return;
+  if (!room.players.some(p => p.id === botId)) return;
+
+  if (room.gameState === 'writing') {
+    recordSubmission(room, botId, 'sentence', writeBotSentence());
+  } else if (room.gameState === 'drawing') {
+    recordSubmission(room, botId, 'drawing', await images.save(drawBotPicture()));
+  } else {
+    return;
+  }
+  setDone(room, botId, true);
+
+  await checkPhaseComplete(io, room);
+  await syncRoom(io, room);
+};
+
+// Cancel the pending submission of a bot
+const clearBotTimer = (botId: string): void => {
+  const timer = botTimers.get(botId);
+  if (timer) {
+    clearTimeout(timer);
+    botTimers.delete(botId);
+  }
+};
+
+// Settings that differ between two versions, with their new value
+const getSettingsChanges = (previous: RoomSettings, next: RoomSettings): Partial<RoomSettings> => {
+  return Object.fromEntries(
+    (Object.keys(next) as Array<keyof RoomSettings>)
+      .filter(key => previous[key] !== next[key])
+      .map(key => [key, next[key]])
+  );
+};
+
+// Keep a copy of a finished game, without failing the phase change if that goes wrong
+const archiveGame = async (room: GameRoom): Promise<GameArchive | null> => {
+  try {
+    const archive = createArchive(room);
+    await archives.save(archive);
+    return archive;
+  } catch (error) {
+    logger.error('Error archiving game', { roomCode: room.code, error });
+    return null;
+  }
+};
+
+// Carry a hidden or shown submission over to the archived game that downloads are made from
+const hideArchivedSubmission = async (room: GameRoom, chainId: string, entryIndex: number, hidden: boolean): Promise<void> => {
+  if (!room.lastGame) return;
+
+  try {
+    const archive = await archives.get(room.id, room.lastGame.gameId);
+    const entry = archive?.chains.find(c => c.id === chainId)?.entries[entryIndex];
+    if (!archive || !entry) return;
+
+    if (hidden) {
+      entry.hidden = true;
+    } else {
+      delete entry.hidden;
+    }
+    await archives.update(archive);
+  } catch (error) {
+    logger.error('Error updating archived game', { roomCode: room.code, error });
+  }
+};
+
+// Set the deadline for the current phase and advance automatically when it passes
+const startPhaseTimer = (io: Server, room: GameRoom): void => {
+  clearPhaseTimer(room);
+
+  const duration = room.gameState === 'writing'
+    ? room.settings.writingDuration
+    : room.gameState === 'drawing' ? room.settings.drawingDuration : 0;
+  if (!duration) return;
+
+  room.phaseDeadline = Date.now() + duration * 1000;
+  schedulePhaseTimer(io, room.id, room.phaseDeadline);
+};
+
+// Advance a room when its phase deadline passes
+const schedulePhaseTimer = (io: Server, roomId: string, deadline: number): void => {
+  const delay = Math.max(deadline - Date.now(), 0) + DEADLINE_GRACE_PERIOD;
+
+  phaseTimers.set(roomId, setTimeout(() => withRoomLocks(async () => {
+    phaseTimers.delete(roomId);
+
+    try {
+      // The room may have been deleted or moved on in the meantime
+      const room = await getLockedRoom(roomId);
+      if (!room || room.phaseDeadline !== deadline) return;
+
+      logger.info('Phase timed out', { roomCode: room.code, phase: room.gameState });
+      await advancePhase(io, room);
+      await syncRoom(io, room);
+    } catch (error) {
+      logger.error('Error advancing phase', { error });
+    }
+  }), delay));
+};
+
+// Advance a room whose phase timer went away with the instance that ran it, taking the timers over
+export const advanceOverduePhase = async (io: Server, room: GameRoom): Promise<void> => {
+  logger.warn('Phase overdue', { roomCode: room.code, phase: room.gameState });
+  await advancePhase(io, room);
+  await syncRoom(io, room);
+};
+
+// Cancel the phase timer of a room
+const clearPhaseTimer = (room: GameRoom): void => {
+  room.phaseDeadline = null;
+
+  const timer = phaseTimers.get(room.id);
+  if (timer) {
+    clearTimeout(timer);
+    phaseTimers.delete(room.id);
+  }
+};
+
+// Check whether a player already submitted in the current phase
+const hasSubmitted = (room: GameRoom, playerId: string): boolean => {
+  return getSubmittedPlayerIds(room).includes(playerId);
+};
+
+// Build the prompt a player has to respond to in the current phase
+const buildPrompt = (room: GameRoom, playerId: string): PromptPayload | null => {
+  const chain = getAssignedChain(room, playerId);
+  if (!chain) return null;
+
+  return {
+    phase: room.gameState,
+    round: room.currentRound,
+    chainId: chain.id,
+    prompt: getPromptFor(room, playerId)
+  };
+};
+
+// Send every player the item they have to respond to in the current phase
+const emitPrompts = (io: Server, room: GameRoom): void => {
+  room.players.filter(p => !p.isBot).forEach(p => {
+    const prompt = buildPrompt(room, p.id);
+    if (prompt) {
+      io.to(p.socketId).emit('your-prompt', prompt);
+    }
   });
 };
 
 // Emit active rooms to a specific socket
-const emitActiveRooms = (socket: Socket): void => {
-  const activeRooms = getActiveRooms();
+const emitActiveRooms = async (socket: Socket): Promise<void> => {
+  const activeRooms = await getActiveRooms();
   socket.emit('active-rooms', activeRooms);
 };
 
 // Emit active rooms to all connected sockets
-const emitActiveRoomsToAll = (io: Server): void => {
-  const activeRooms = getActiveRooms();
+const emitActiveRoomsToAll = async (io: Server): Promise<void> => {
+  const activeRooms = await getActiveRooms();
   io.emit('active-rooms', activeRooms);
 };
 
-// Get active rooms
-const getActiveRooms = (): Array<{ code: string; playerCount: number; locked: boolean }> => {
-  return Array.from(rooms.values())
-    .filter(room => room.gameState === 'lobby')
-    .map(room => ({
-      code: room.code,
-      playerCount: room.players.length,
-      locked: room.locked
-    }));
+// Get the public rooms waiting in their lobby
+const getActiveRooms = async (): Promise<ActiveRoom[]> => {
+  return (await rooms.listPublic()).map(room => ({
+    code: room.code,
+    playerCount: room.players.length,
+    locked: room.locked
+  }));
 };
 
-// Helper function to find a room by code
-const findRoomByCode = (code: string): GameRoom | null => {
-  for (const room of rooms.values()) {
-    if (room.code === code) {
-      return room;
-    }
+// Address of the client behind a socket
+const getClientAddress = (socket: Socket): string => {
+  const forwardedFor = socket.handshake.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwardedFor === 'string') {
+    return forwardedFor.split(',')[0].trim();
   }
-  return null;
+  return socket.handshake.address;
 };
 
-// Helper function to find a player's room
-const findPlayerRoom = (playerId: string): { room: GameRoom | null; player: GamePlayer | null } => {
-  for (const room of rooms.values()) {
-    const player = room.players.find(p => p.id === playerId);
-    if (player) {
-      return { room, player };
-    }
+// Helper function to find the room and player bound to a socket
+const findPlayerRoom = async (socket: Socket): Promise<{ room: GameRoom | null; player: GamePlayer | null }> => {
+  const playerId: string | undefined = socket.data.playerId;
+  if (!playerId) {
+    return { room: null, player: null };
+  }
+
+  const found = await rooms.findByPlayer(playerId);
+  const room = found && await getLockedRoom(found.id);
+  const player = room?.players.find(p => p.id === playerId);
+
+  // Ignore sockets that were replaced by a rejoin
+  if (!room || !player || player.socketId !== socket.id) {
+    return { room: null, player: null };
+  }
+  addLogContext({ roomCode: room.code });
+  return { room, player };
+};
+
+// Helper function to find the room and spectator bound to a socket
+const findSpectatorRoom = async (socket: Socket): Promise<{ room: GameRoom | null; spectator: Spectator | null }> => {
+  const { spectatorId, roomId } = socket.data;
+  if (!spectatorId || !roomId) {
+    return { room: null, spectator: null };
+  }
+
+  // Only lock rooms the socket is watching
+  const found = await rooms.get(roomId);
+  const room = found?.spectators.some(s => s.id === spectatorId) ? await getLockedRoom(roomId) : null;
+  const spectator = room?.spectators.find(s => s.id === spectatorId);
+  if (!room || !spectator) {
+    return { room: null, spectator: null };
+  }
+  addLogContext({ roomCode: room.code });
+  return { room, spectator };
+};
+
+// Helper function to find a player's room by reconnect token
+const findPlayerByToken = async (reconnectToken: string): Promise<{ room: GameRoom | null; player: GamePlayer | null }> => {
+  const found = (await rooms.list()).find(room => room.players.some(p => p.reconnectToken === reconnectToken));
+  const room = found && await getLockedRoom(found.id);
+  const player = room?.players.find(p => p.reconnectToken === reconnectToken);
+  if (!room || !player) {
+    return { room: null, player: null };
+  }
+  return { room, player };
+};
+
+// Locks of the rooms the event or timer being handled looked up
+const lockScope = new AsyncLocalStorage<Map<string, () => Promise<void>>>();
+
+// Handle an event or timer holding the lock of every room it looks up until it is done, so that
+// changes made elsewhere in the meantime (e.g. by another instance) are not overwritten
+export const withRoomLocks = async <T>(fn: () => Promise<T>): Promise<T> => {
+  const unlocks = new Map<string, () => Promise<void>>();
+  try {
+    return await lockScope.run(unlocks, fn);
+  } finally {
+    // A lock that cannot be released times out on its own
+    await Promise.all(Array.from(unlocks.values()).map(unlock => unlock().catch(error => {
+      logger.error('Error releasing room lock', { error });
+    })));
   }
-  return { room: null, player: null };
+};
+
+// Lock a room and read it again now that nothing else can change it
+export const getLockedRoom = async (roomId: string): Promise<GameRoom | null> => {
+  const unlocks = lockScope.getStore();
+  if (!unlocks) {
+    throw new Error('Rooms can only be locked while handling an event or timer');
+  }
+  if (!unlocks.has(roomId)) {
+    unlocks.set(roomId, await rooms.lock(roomId));
+  }
+  return rooms.get(roomId);
+};
+
+// Find a room by code and lock it
+export const findLockedRoomByCode = async (code: string): Promise<GameRoom | null> => {
+  const found = await rooms.findByCode(code);
+  const room = found && await getLockedRoom(found.id);
+  return room?.code === code ? room : null;
 };
 
 // Generate a random 4-character room code
-const generateRoomCode = (): string => {
+const generateRoomCode = async (): Promise<string> => {
   const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
   let code = '';
   for (let i = 0; i < 4; i++) {
@@ -618,7 +2206,7 @@ const generateRoomCode = (): string => {
   }
   
   // Ensure code is unique
-  if (findRoomByCode(code)) {
+  if (await rooms.findByCode(code)) {
     return generateRoomCode();
   }
   
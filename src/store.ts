@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Redis from 'ioredis';
+import { GameRoom } from './models';
+import { logger } from './logger';
+
+// Storage backend for game rooms. Changes to a room are made while holding its lock, from reading
+// the room to saving it, so two changes never start from the same state.
+export interface RoomStore {
+  get(roomId: string): Promise<GameRoom | null>;
+  set(room: GameRoom): Promise<void>;
+  delete(roomId: string): Promise<void>;
+  findByCode(code: string): Promise<GameRoom | null>;
+  findByPlayer(playerId: string): Promise<GameRoom | null>;
+  list(): Promise<GameRoom[]>;
+  listPublic(): Promise<GameRoom[]>; // Only the rooms shown in the lobby list, see isListedRoom
+  lock(roomId: string): Promise<() => Promise<void>>; // Waits for the lock, resolves to the function releasing it
+}
+
+// Saving a room that was changed since it was read, which the locks should have prevented
+export class RoomConflictError extends Error {
+  constructor(roomId: string) {
+    super(`Room ${roomId} was changed since it was read`);
+    this.name = 'RoomConflictError';
+  }
+}
+
+// Rooms shown to everyone in the lobby list: public ones whose game has not started
+export const isListedRoom = (room: GameRoom): boolean => {
+  return room.gameState === 'lobby' && room.settings.visibility === 'public';
+};
+
+// Fields holding dates, which JSON turns into strings
+const DATE_FIELDS = new Set(['createdAt', 'startedAt', 'lastActivity', 'finishedAt']);
+
+// Turn stored date strings back into Dates while parsing
+export const reviveDates = (key: string, value: unknown): unknown => {
+  if (DATE_FIELDS.has(key) && typeof value === 'string') {
+    return new Date(value);
+  }
+  return value;
+};
+
+// Keeps rooms in process memory, lost on restart
+export class MemoryRoomStore implements RoomStore {
+  protected rooms: Map<string, GameRoom> = new Map();
+  private locks: Map<string, Promise<void>> = new Map(); // Released once the last holder or waiter is done
+
+  async get(roomId: string): Promise<GameRoom | null> {
+    return this.rooms.get(roomId) || null;
+  }
+
+  async set(room: GameRoom): Promise<void> {
+    this.rooms.set(room.id, room);
+  }
+
+  async delete(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+  }
+
+  async findByCode(code: string): Promise<GameRoom | null> {
+    for (const room of this.rooms.values()) {
+      if (room.code === code) {
+        return room;
+      }
+    }
+    return null;
+  }
+
+  async findByPlayer(playerId: string): Promise<GameRoom | null> {
+    for (const room of this.rooms.values()) {
+      if (room.players.some(p => p.id === playerId)) {
+        return room;
+      }
+    }
+    return null;
+  }
+
+  async list(): Promise<GameRoom[]> {
+    return Array.from(this.rooms.values());
+  }
+
+  async listPublic(): Promise<GameRoom[]> {
+    return (await this.list()).filter(isListedRoom);
+  }
+
+  async lock(roomId: string): Promise<() => Promise<void>> {
+    const previous = this.locks.get(roomId) || Promise.resolve();
+    let unlock: () => void;
+    // The executor runs right away, so unlock is set before anyone can call the release function
+    const released = new Promise<void>(resolve => { unlock = resolve; });
+    const current = previous.then(() => released);
+    this.locks.set(roomId, current);
+
+    await previous;
+    return async () => {
+      unlock();
+      if (this.locks.get(roomId) === current) this.locks.delete(roomId);
+    };
+  }
+}
+
+// Keeps rooms in memory and mirrors them to a JSON file so they survive a restart
+export class FileRoomStore extends MemoryRoomStore {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    super();
+    this.load();
+  }
+
+  async set(room: GameRoom): Promise<void> {
+    await super.set(room);
+    await this.save();
+  }
+
+  async delete(roomId: string): Promise<void> {
+    await super.delete(roomId);
+    await this.save();
+  }
+
+  // Read the rooms saved by a previous run
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const saved: GameRoom[] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'), reviveDates);
+    saved.forEach(room => this.rooms.set(room.id, room));
+    logger.info('Loaded rooms', { count: this.rooms.size, path: this.filePath });
+  }
+
+  // Write all rooms to disk, one write at a time
+  private save(): Promise<void> {
+    const data = JSON.stringify(Array.from(this.rooms.values()));
+
+    this.writing = this.writing
+      .then(async () => {
+        // Write to a temporary file first so a crash never leaves a truncated file
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(tempPath, data);
+        await fs.promises.rename(tempPath, this.filePath);
+      })
+      .catch(error => {
+        logger.error('Error saving rooms', { error });
+      });
+
+    return this.writing;
+  }
+}
+
+// Milliseconds a Redis room lock is kept if its holder never releases it, e.g. because the instance died
+const LOCK_TIMEOUT = 10 * 1000;
+
+// Milliseconds to wait for a Redis room lock before giving up, and between attempts to take it
+const LOCK_WAIT = 5 * 1000;
+const LOCK_RETRY_DELAY = 20;
+
+// Save a room only if it is still at the version it was read at (none for new rooms), and count the new version.
+// KEYS: room, version, code index, room set, public room set, player indexes, then the indexes of players who left.
+// ARGV: version read, room JSON, room ID, '1' if the room is listed, number of player indexes.
+const SET_SCRIPT = `
+local exists = redis.call('EXISTS', KEYS[1]) == 1
+local version = tonumber(redis.call('GET', KEYS[2]) or '0')
+if ARGV[1] == '' then
+  if exists then return -1 end
+elseif not exists or version ~= tonumber(ARGV[1]) then
+  return -1
+end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('SET', KEYS[3], ARGV[3])
+redis.call('SADD', KEYS[4], ARGV[3])
+if ARGV[4] == '1' then
+  redis.call('SADD', KEYS[5], ARGV[3])
+else
+  redis.call('SREM', KEYS[5], ARGV[3])
+end
+local lastPlayer = 5 + tonumber(ARGV[5])
+for i = 6, lastPlayer do redis.call('SET', KEYS[i], ARGV[3]) end
+for i = lastPlayer + 1, #KEYS do redis.call('DEL', KEYS[i]) end
+return redis.call('INCR', KEYS[2])
+`;
+
+// Release a lock only if it is still the one taken, not one taken by someone else after it timed out
+const UNLOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then redis.call('DEL', KEYS[1]) end
+`;
+
+// Keeps rooms in Redis so that several server instances can share them
+export class RedisRoomStore implements RoomStore {
+  private redis: Redis;
+  private reads: WeakMap<GameRoom, { version: number; playerIds: string[] }> = new WeakMap(); // As each room was read or last saved
+
+  constructor(url: string, private prefix = 'mnsphone:') {
+    this.redis = new Redis(url);
+  }
+
+  async get(roomId: string): Promise<GameRoom | null> {
+    const [data, version] = await this.redis.mget(this.key('room', roomId), this.key('version', roomId));
+    return data ? this.parse(data, version) : null;
+  }
+
+  // Every instance reads its own copy, so a stale copy must not overwrite newer changes if its lock timed out
+  async set(room: GameRoom): Promise<void> {
+    const read = this.reads.get(room);
+    const playerIds = room.players.map(p => p.id);
+    const leftIds = (read?.playerIds || []).filter(playerId => !playerIds.includes(playerId));
+    const keys = [
+      this.key('room', room.id),
+      this.key('version', room.id),
+      this.key('code', room.code),
+      this.key('rooms'),
+      this.key('public-rooms'),
+      ...[...playerIds, ...leftIds].map(playerId => this.key('player', playerId))
+    ];
+    const saved = await this.redis.eval(
+      SET_SCRIPT, keys.length, ...keys,
+      read ? read.version : '', JSON.stringify(room), room.id, isListedRoom(room) ? '1' : '', playerIds.length
+    ) as number;
+
+    if (saved < 0) throw new RoomConflictError(room.id);
+    this.reads.set(room, { version: saved, playerIds });
+  }
+
+  async delete(roomId: string): Promise<void> {
+    const room = await this.get(roomId);
+    const multi = this.redis.multi()
+      .del(this.key('room', roomId), this.key('version', roomId))
+      .srem(this.key('rooms'), roomId)
+      .srem(this.key('public-rooms'), roomId);
+    if (room) {
+      multi.del(this.key('code', room.code));
+      room.players.forEach(p => multi.del(this.key('player', p.id)));
+    }
+    await multi.exec();
+  }
+
+  async findByCode(code: string): Promise<GameRoom | null> {
+    const roomId = await this.redis.get(this.key('code', code));
+    const room = roomId ? await this.get(roomId) : null;
+    return room && room.code === code ? room : null;
+  }
+
+  async findByPlayer(playerId: string): Promise<GameRoom | null> {
+    const roomId = await this.redis.get(this.key('player', playerId));
+    const room = roomId ? await this.get(roomId) : null;
+
+    // Rooms saved before players were dropped from the index may still point at them
+    return room && room.players.some(p => p.id === playerId) ? room : null;
+  }
+
+  async list(): Promise<GameRoom[]> {
+    return this.getMany(await this.redis.smembers(this.key('rooms')));
+  }
+
+  // Kept up to date by every save, rooms saved before the index existed show up once they are saved again
+  async listPublic(): Promise<GameRoom[]> {
+    return this.getMany(await this.redis.smembers(this.key('public-rooms')));
+  }
+
+  async lock(roomId: string): Promise<() => Promise<void>> {
+    const key = this.key('lock', roomId);
+    const token = crypto.randomUUID();
+    const giveUpAt = Date.now() + LOCK_WAIT;
+
+    while (await this.redis.set(key, token, 'PX', LOCK_TIMEOUT, 'NX') !== 'OK') {
+      if (Date.now() >= giveUpAt) throw new Error(`Timed out waiting for the lock of room ${roomId}`);
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY));
+    }
+    return async () => {
+      await this.redis.eval(UNLOCK_SCRIPT, 1, key, token);
+    };
+  }
+
+  // Rooms that still exist among the given IDs
+  private async getMany(roomIds: string[]): Promise<GameRoom[]> {
+    if (roomIds.length === 0) return [];
+
+    const data = await this.redis.mget(roomIds.flatMap(roomId => [this.key('room', roomId), this.key('version', roomId)]));
+    return roomIds.flatMap((roomId, index) => {
+      const room = data[index * 2];
+      return room ? [this.parse(room, data[index * 2 + 1])] : [];
+    });
+  }
+
+  // Rooms saved before versions were counted are at version 0
+  private parse(data: string, version: string | null): GameRoom {
+    const room: GameRoom = JSON.parse(data, reviveDates);
+    this.reads.set(room, { version: Number(version) || 0, playerIds: room.players.map(p => p.id) });
+    return room;
+  }
+
+  private key(...parts: string[]): string {
+    return this.prefix + parts.join(':');
+  }
+}
@@ -0,0 +1,182 @@
+import { DecodedImage } from './images';
+import { DrawingRecording, Stroke, StrokePoint } from './models';
+import { Canvas, getLineCost, parseColor } from './raster';
+
+// Largest recordings the server keeps and replays
+export const RECORDING_LIMITS = {
+  maxSize: 1024, // Canvas width and height
+  maxStrokes: 2000,
+  maxPoints: 20000, // Across all strokes
+  maxStrokeWidth: 32,
+  maxDrawingCost: 5 * 1000 * 1000, // Pixels visited when the server draws a recording sent without an image
+  maxDuration: 10 * 60 * 1000 // Milliseconds
+};
+
+// Bumped whenever the binary layout changes
+const FORMAT_VERSION = 1;
+
+// Coordinates are kept to a tenth of a pixel
+const COORDINATE_SCALE = 10;
+
+// Recordings are kept per player and round, like the drawings they belong to
+export const recordingKey = (playerId: string, round: number): string => `${playerId}:${round}`;
+
+const countPoints = (strokes: Stroke[]): number => strokes.reduce((count, stroke) => count + stroke.points.length, 0);
+
+// Time of the last point, which is how long the replay takes at normal speed
+export const getRecordingDuration = (recording: DrawingRecording): number => {
+  return recording.strokes.reduce((duration, stroke) => {
+    return stroke.points.reduce((last, [, , t]) => Math.max(last, t), duration);
+  }, 0);
+};
+
+// Check the limits payload validation cannot, returning the problem or null
+export const checkRecording = (recording: DrawingRecording): string | null => {
+  if (recording.strokes.length > RECORDING_LIMITS.maxStrokes) {
+    return `Recordings must have at most ${RECORDING_LIMITS.maxStrokes} strokes`;
+  }
+  if (countPoints(recording.strokes) > RECORDING_LIMITS.maxPoints) {
+    return `Recordings must have at most ${RECORDING_LIMITS.maxPoints} points`;
+  }
+  return null;
+};
+
+// Whether the server can draw a recording without holding up everything else for long,
+// counting the pixels rasterizeRecording would visit
+export const canRasterize = (recording: DrawingRecording): boolean => {
+  let cost = 0;
+  for (const stroke of recording.strokes) {
+    stroke.points.forEach(([x, y], index) => {
+      const [fromX, fromY] = stroke.points[Math.max(index - 1, 0)];
+      cost += getLineCost(fromX, fromY, x, y, stroke.width);
+    });
+    if (cost > RECORDING_LIMITS.maxDrawingCost) return false;
+  }
+  return true;
+};
+
+// Unsigned LEB128
+const writeVarint = (bytes: number[], value: number): void => {
+  let rest = value;
+  while (rest >= 0x80) {
+    bytes.push((rest % 0x80) | 0x80);
+    rest = Math.floor(rest / 0x80);
+  }
+  bytes.push(rest);
+};
+
+// Zigzag keeps small negative deltas small
+const writeSignedVarint = (bytes: number[], value: number): void => {
+  writeVarint(bytes, value < 0 ? -value * 2 - 1 : value * 2);
+};
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private data: Buffer) {}
+
+  byte(): number {
+    if (this.offset >= this.data.length) throw new Error('Recording is truncated');
+    return this.data[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let factor = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * factor;
+      if (byte < 0x80) return value;
+      factor *= 0x80;
+    }
+  }
+
+  signedVarint(): number {
+    const value = this.varint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+}
+
+// Pack a recording into base64: the canvas size, then every stroke's colour, width and points,
+// each point stored as the difference to the one before it
+export const encodeRecording = (recording: DrawingRecording): string => {
+  const bytes: number[] = [FORMAT_VERSION];
+  writeVarint(bytes, recording.width);
+  writeVarint(bytes, recording.height);
+  writeVarint(bytes, recording.strokes.length);
+
+  let previous: StrokePoint = [0, 0, 0];
+  recording.strokes.forEach(stroke => {
+    bytes.push(...parseColor(stroke.color));
+    writeVarint(bytes, Math.round(stroke.width * COORDINATE_SCALE));
+    writeVarint(bytes, stroke.points.length);
+
+    stroke.points.forEach(([x, y, t]) => {
+      const point: StrokePoint = [Math.round(x * COORDINATE_SCALE), Math.round(y * COORDINATE_SCALE), Math.round(t)];
+      point.forEach((value, index) => writeSignedVarint(bytes, value - previous[index]));
+      previous = point;
+    });
+  });
+
+  return Buffer.from(bytes).toString('base64');
+};
+
+const toHex = (value: number): string => value.toString(16).padStart(2, '0');
+
+export const decodeRecording = (data: string): DrawingRecording => {
+  const reader = new ByteReader(Buffer.from(data, 'base64'));
+  const version = reader.byte();
+  if (version !== FORMAT_VERSION) throw new Error(`Unknown recording format ${version}`);
+
+  const width = reader.varint();
+  const height = reader.varint();
+  const strokeCount = reader.varint();
+
+  let previous: StrokePoint = [0, 0, 0];
+  const strokes: Stroke[] = [];
+  for (let i = 0; i < strokeCount; i++) {
+    const color = `#${toHex(reader.byte())}${toHex(reader.byte())}${toHex(reader.byte())}`;
+    const strokeWidth = reader.varint() / COORDINATE_SCALE;
+    const pointCount = reader.varint();
+
+    const points: StrokePoint[] = [];
+    for (let j = 0; j < pointCount; j++) {
+      previous = [
+        previous[0] + reader.signedVarint(),
+        previous[1] + reader.signedVarint(),
+        previous[2] + reader.signedVarint()
+      ];
+      points.push([previous[0] / COORDINATE_SCALE, previous[1] / COORDINATE_SCALE, previous[2]]);
+    }
+    strokes.push({ color, width: strokeWidth, points });
+  }
+
+  return { width, height, strokes };
+};
+
+// Add strokes streamed while drawing to what the player recorded so far, starting over when
+// the canvas size changes
+export const appendStrokes = (
+  existing: DrawingRecording | null,
+  width: number,
+  height: number,
+  strokes: Stroke[]
+): DrawingRecording => {
+  if (!existing || existing.width !== width || existing.height !== height) {
+    return { width, height, strokes };
+  }
+  return { width, height, strokes: [...existing.strokes, ...strokes] };
+};
+
+// Draw the finished picture, for players who only send their strokes
+export const rasterizeRecording = (recording: DrawingRecording): DecodedImage => {
+  const canvas = new Canvas(recording.width, recording.height);
+  recording.strokes.forEach(stroke => {
+    const color = parseColor(stroke.color);
+    stroke.points.forEach(([x, y], index) => {
+      const [fromX, fromY] = stroke.points[Math.max(index - 1, 0)];
+      canvas.drawLine(fromX, fromY, x, y, stroke.width, color);
+    });
+  });
+  return canvas.toImage();
+};
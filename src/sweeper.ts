@@ -0,0 +1,91 @@
+import { GameRoom } from './models';
+import { RoomStore } from './store';
+import { advanceOverduePhase, closeRoom, emitToAudience, getLockedRoom, Server, withRoomLocks } from './socket';
+import { logger } from './logger';
+
+export interface SweeperOptions {
+  idleTimeout: number; // Milliseconds without any change before a room is closed
+  maxAge: number; // Milliseconds after creation before a room is closed, active or not
+  warningPeriod: number; // Milliseconds between the `room-expiring` warning and the close
+  interval: number; // Milliseconds between sweeps
+  now?: () => number; // Clock, replaced in tests
+}
+
+// Closes rooms that sat idle or have been open for too long. Every instance sweeps, each room is
+// warned and closed under its lock, so only the first instance to get to it does either. Rooms
+// whose phase deadline passed a whole sweep ago lost their timer with an instance and are advanced.
+export class RoomSweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private now: () => number;
+
+  constructor(private io: Server, private rooms: RoomStore, private options: SweeperOptions) {
+    this.now = options.now || Date.now;
+  }
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => {
+        logger.error('Error sweeping rooms', { error });
+      });
+    }, this.options.interval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Warn rooms that are about to expire, close the ones that did and advance overdue phases
+  async sweep(): Promise<void> {
+    for (const listed of await this.rooms.list()) {
+      if (this.isOverdue(listed)) {
+        await withRoomLocks(async () => {
+          const room = await getLockedRoom(listed.id);
+          if (room && this.isOverdue(room)) await advanceOverduePhase(this.io, room);
+        });
+      }
+      if (!this.isDue(listed)) continue;
+
+      await withRoomLocks(async () => {
+        // The room may have been closed, warned or used again since it was listed
+        const room = await getLockedRoom(listed.id);
+        if (!room || !this.isDue(room)) return;
+
+        const { closesAt, reason } = this.getExpiry(room);
+        if (this.now() >= closesAt) {
+          await closeRoom(this.io, room, reason === 'idle'
+            ? 'This room was closed after being idle for too long'
+            : 'This room was closed after reaching its maximum age');
+          return;
+        }
+
+        // Warn once per close time, activity after the warning pushes it back
+        room.expiryWarning = closesAt;
+        await this.rooms.set(room);
+        emitToAudience(this.io, room).emit('room-expiring', { roomCode: room.code, reason, closesAt });
+      });
+    }
+  }
+
+  // Whether a room's phase should have been advanced by its timer long ago
+  private isOverdue(room: GameRoom): boolean {
+    return room.phaseDeadline !== null && this.now() >= room.phaseDeadline + this.options.interval;
+  }
+
+  // Whether a room has to be closed, or warned about a close time it was not warned about yet
+  private isDue(room: GameRoom): boolean {
+    const now = this.now();
+    const { closesAt } = this.getExpiry(room);
+    return now >= closesAt || (now >= closesAt - this.options.warningPeriod && room.expiryWarning !== closesAt);
+  }
+
+  // When a room will be closed, whichever limit comes first
+  private getExpiry(room: GameRoom): { closesAt: number; reason: 'idle' | 'max-age' } {
+    const idleAt = room.lastActivity.getTime() + this.options.idleTimeout;
+    const maxAgeAt = room.createdAt.getTime() + this.options.maxAge;
+    return idleAt <= maxAgeAt ? { closesAt: idleAt, reason: 'idle' } : { closesAt: maxAgeAt, reason: 'max-age' };
+  }
+}
@@ -0,0 +1,29 @@
+import { RoomPatchOperation } from './events';
+
+type Path = Array<string | number>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Plain JSON copy of a room view, as clients receive it
+export const toSnapshot = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// List the operations that turn one snapshot into the next
+export const diffSnapshots = (previous: unknown, next: unknown, path: Path = []): RoomPatchOperation[] => {
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const operations = Object.keys(next).flatMap(key => diffSnapshots(previous[key], next[key], [...path, key]));
+    Object.keys(previous)
+      .filter(key => !(key in next))
+      .forEach(key => operations.push({ op: 'delete', path: [...path, key] }));
+    return operations;
+  }
+
+  // Arrays mostly grow, so compare them item by item and replace them when they shrink
+  if (Array.isArray(previous) && Array.isArray(next) && next.length >= previous.length) {
+    return next.flatMap((item, index) => diffSnapshots(previous[index], item, [...path, index]));
+  }
+
+  if (JSON.stringify(previous) === JSON.stringify(next)) return [];
+  return [{ op: 'set', path, value: next }];
+};
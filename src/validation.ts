@@ -0,0 +1,210 @@
+import { ClientToServerEvents, ErrorPayload } from './events';
+import { VOTE_KINDS } from './awards';
+import { ROOM_VISIBILITIES } from './access';
+import { GAME_MODES, PHASE_TYPES } from './modes';
+import { RECORDING_LIMITS } from './strokes';
+import { REPLAY_ACTIONS, REPLAY_SPEEDS } from './replay';
+
+// Returns an error message, or null when the value is valid
+export type Validator = (value: unknown, path: string) => string | null;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const isString = (options: { min?: number; max?: number; pattern?: RegExp } = {}): Validator => {
+  const { min = 0, max = Infinity, pattern } = options;
+  return (value, path) => {
+    if (typeof value !== 'string') return `${path} must be a string`;
+    if (value.trim().length < min) return `${path} must be at least ${min} characters`;
+    if (value.length > max) return `${path} must be at most ${max} characters`;
+    if (pattern && !pattern.test(value)) return `${path} has an invalid format`;
+    return null;
+  };
+};
+
+export const isInteger = (options: { min?: number; max?: number } = {}): Validator => {
+  const { min = -Infinity, max = Infinity } = options;
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) return `${path} must be an integer`;
+    if (value < min || value > max) return `${path} must be between ${min} and ${max}`;
+    return null;
+  };
+};
+
+export const isNumber = (options: { min?: number; max?: number } = {}): Validator => {
+  const { min = -Infinity, max = Infinity } = options;
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} must be a number`;
+    if (value < min || value > max) return `${path} must be between ${min} and ${max}`;
+    return null;
+  };
+};
+
+export const isBoolean: Validator = (value, path) => {
+  return typeof value === 'boolean' ? null : `${path} must be a boolean`;
+};
+
+export const isOneOf = (values: readonly string[]): Validator => {
+  return (value, path) => {
+    if (typeof value !== 'string' || !values.includes(value)) return `${path} must be one of ${values.join(', ')}`;
+    return null;
+  };
+};
+
+export const isObject = (shape: Record<string, Validator>): Validator => {
+  return (value, path) => {
+    if (!isPlainObject(value)) return `${path} must be an object`;
+
+    for (const [key, validate] of Object.entries(shape)) {
+      const error = validate(value[key], `${path}.${key}`);
+      if (error) return error;
+    }
+    return null;
+  };
+};
+
+export const isArray = (validate: Validator, options: { min?: number; max?: number } = {}): Validator => {
+  const { min = 0, max = Infinity } = options;
+  return (value, path) => {
+    if (!Array.isArray(value)) return `${path} must be an array`;
+    if (value.length < min || value.length > max) return `${path} must have between ${min} and ${max} items`;
+
+    for (let i = 0; i < value.length; i++) {
+      const error = validate(value[i], `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  };
+};
+
+// Fixed-length array with one validator per position
+export const isTuple = (validators: Validator[]): Validator => {
+  return (value, path) => {
+    if (!Array.isArray(value) || value.length !== validators.length) {
+      return `${path} must be an array of ${validators.length} items`;
+    }
+
+    for (let i = 0; i < validators.length; i++) {
+      const error = validators[i](value[i], `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  };
+};
+
+export const optional = (validate: Validator): Validator => {
+  return (value, path) => (value === undefined ? null : validate(value, path));
+};
+
+// Events without a payload ignore whatever the client sends
+export const noPayload: Validator = () => null;
+
+// Binary attachments arrive as Buffers
+export const isStringOrBinary: Validator = (value, path) => {
+  if (typeof value === 'string' || value instanceof Uint8Array || value instanceof ArrayBuffer) return null;
+  return `${path} must be a string or binary data`;
+};
+
+const nickname = isString({ min: 1, max: 24 });
+const profilePic = isString({ max: 10000 });
+const roomCode = isString({ pattern: /^[A-Z]{4}$/ });
+const password = optional(isString({ min: 1, max: 64 }));
+const inviteToken = optional(isString({ min: 1, max: 512 }));
+const visibility = optional(isOneOf(ROOM_VISIBILITIES));
+const canvasSize = isInteger({ min: 1, max: RECORDING_LIMITS.maxSize });
+const coordinate = isNumber({ min: 0, max: RECORDING_LIMITS.maxSize });
+const strokes = isArray(isObject({
+  color: isString({ pattern: /^#[0-9a-fA-F]{6}$/ }),
+  width: isNumber({ min: 0.5, max: RECORDING_LIMITS.maxStrokeWidth }),
+  points: isArray(isTuple([coordinate, coordinate, isNumber({ min: 0, max: RECORDING_LIMITS.maxDuration })]), {
+    min: 1,
+    max: RECORDING_LIMITS.maxPoints
+  })
+}), { max: RECORDING_LIMITS.maxStrokes }); // The total number of points is checked by the handler
+const replaySpeed = isNumber(REPLAY_SPEEDS);
+
+// Payload schema for every client event
+export const eventSchemas: Record<keyof ClientToServerEvents, Validator> = {
+  'create-room': isObject({ nickname, profilePic, visibility, password }),
+  'join-room': isObject({ roomCode, nickname, profilePic, password, inviteToken }),
+  'rejoin-room': isObject({ reconnectToken: isString({ min: 1, max: 128 }) }),
+  'spectate-room': isObject({ roomCode, nickname, password, inviteToken }),
+  'remove-spectator': isObject({ spectatorId: isString({ min: 1, max: 64 }) }),
+  'leave-room': noPayload,
+  'toggle-ready': noPayload,
+  'start-game': noPayload,
+  'submit-sentence': isObject({ text: isString({ min: 1, max: 200 }), done: optional(isBoolean) }),
+  'submit-drawing': isObject({
+    imageData: optional(isStringOrBinary), // Decoded and size-checked by the handler
+    recording: optional(isObject({ width: canvasSize, height: canvasSize, strokes })),
+    done: optional(isBoolean)
+  }),
+  'append-strokes': isObject({ width: canvasSize, height: canvasSize, strokes, reset: optional(isBoolean) }),
+  'withdraw-submission': noPayload,
+  'set-done': isObject({ done: isBoolean }),
+  'update-room-settings': isObject({
+    settings: isObject({
+      mode: optional(isOneOf(GAME_MODES)),
+      firstPhase: optional(isOneOf(PHASE_TYPES)),
+      maxPlayers: optional(isInteger({ min: 2, max: 16 })),
+      maxRounds: optional(isInteger({ min: 1, max: 10 })),
+      roundsFromPlayers: optional(isBoolean),
+      writingDuration: optional(isInteger({ min: 0, max: 600 })),
+      drawingDuration: optional(isInteger({ min: 0, max: 600 })),
+      maxSpectators: optional(isInteger({ min: 0, max: 100 })),
+      visibility,
+      password
+    })
+  }),
+  'add-bot': noPayload,
+  'kick-player': isObject({ playerId: isString({ min: 1, max: 64 }) }),
+  'report-player': isObject({
+    playerId: isString({ min: 1, max: 64 }),
+    reason: isString({ min: 1, max: 200 }),
+    chainId: optional(isString({ min: 1, max: 64 })),
+    entryIndex: optional(isInteger({ min: 0 }))
+  }),
+  'hide-submission': isObject({
+    chainId: isString({ min: 1, max: 64 }),
+    entryIndex: isInteger({ min: 0 }),
+    hidden: isBoolean
+  }),
+  'transfer-host': isObject({ playerId: isString({ min: 1, max: 64 }) }),
+  'set-co-host': isObject({ playerId: isString({ min: 1, max: 64 }), coHost: isBoolean }),
+  'toggle-room-lock': noPayload,
+  'create-invite': isObject({ expiresIn: optional(isInteger({ min: 60, max: 7 * 24 * 60 * 60 })) }),
+  'revoke-invite': isObject({ inviteId: isString({ min: 1, max: 64 }) }),
+  'start-presentation': noPayload,
+  'show-result': isInteger({ min: 0 }),
+  'end-presentation': noPayload,
+  'replay-drawing': isObject({
+    chainIndex: isInteger({ min: 0 }),
+    entryIndex: isInteger({ min: 0 }),
+    speed: optional(replaySpeed)
+  }),
+  'control-replay': isObject({ action: isOneOf(REPLAY_ACTIONS), speed: optional(replaySpeed) }),
+  'cast-vote': isObject({
+    chainIndex: isInteger({ min: 0 }),
+    entryIndex: isInteger({ min: 0 }),
+    kind: isOneOf(VOTE_KINDS)
+  }),
+  'reset-game': noPayload,
+  'get-active-rooms': noPayload,
+  'sync-room': noPayload
+};
+
+// Whether an event name is part of the protocol
+export const isKnownEvent = (event: string): event is keyof ClientToServerEvents => {
+  return Object.prototype.hasOwnProperty.call(eventSchemas, event);
+};
+
+// Validate a client event, returning the error to send back if it is rejected
+export const validateEvent = (event: string, payload: unknown): ErrorPayload | null => {
+  if (!isKnownEvent(event)) {
+    return { code: 'UNKNOWN_EVENT', message: `Unknown event: ${event}`, event };
+  }
+
+  const message = eventSchemas[event](payload, 'payload');
+  return message ? { code: 'INVALID_PAYLOAD', message, event } : null;
+};
@@ -0,0 +1,74 @@
+import { ClientRoom, GameRoom, SubmissionStatus } from './models';
+import { getPromptFor } from './chains';
+
+// Socket.IO room holding the spectators of a game room
+export const spectatorChannel = (roomId: string): string => `${roomId}:spectators`;
+
+// Players who already submitted in the current phase
+export const getSubmittedPlayerIds = (room: GameRoom): string[] => {
+  if (room.gameState !== 'writing' && room.gameState !== 'drawing') return [];
+
+  const submissions = room.gameState === 'writing' ? room.sentences : room.drawings;
+  return submissions.filter(s => s.round === room.currentRound).map(s => s.playerId);
+};
+
+// Where each player of the current phase stands, keyed by player ID, without anything they wrote or drew
+export const getSubmissionStatuses = (room: GameRoom): Record<string, SubmissionStatus> => {
+  const submitted = getSubmittedPlayerIds(room);
+  return Object.fromEntries(room.phasePlayers.map(playerId => {
+    if (room.donePlayers.includes(playerId)) return [playerId, 'done'];
+    return [playerId, submitted.includes(playerId) ? 'submitted' : 'working'];
+  }));
+};
+
+// Results without the content of submissions the host hid from the presentation
+const hideSubmissions = (room: GameRoom, view: ClientRoom): ClientRoom => {
+  const hidden = room.chains.flatMap(chain => chain.entries.filter(entry => entry.hidden));
+  if (hidden.length === 0) return view;
+
+  const isHidden = (s: { playerId: string; round: number }) => hidden.some(e => e.playerId === s.playerId && e.round === s.round);
+  return {
+    ...view,
+    sentences: room.sentences.filter(s => !isHidden(s)),
+    drawings: room.drawings.filter(d => !isHidden(d)),
+    chains: room.chains.map(chain => ({
+      ...chain,
+      entries: chain.entries.map(entry => (entry.hidden ? { ...entry, content: '' } : entry))
+    }))
+  };
+};
+
+// The room as one player (or a spectator, without a player ID) is allowed to see it.
+// Server-only fields are stripped, only the host and co-hosts see the moderation log and hidden
+// submissions, and while players are writing or drawing nobody sees any submission besides the
+// prompt they have to respond to.
+export const toRoomView = (room: GameRoom, playerId: string | null): ClientRoom => {
+  const submitted = getSubmittedPlayerIds(room);
+  const player = room.players.find(p => p.id === playerId);
+  const moderator = !!player && (player.isHost || player.isCoHost);
+  const { passwordHash, recordings, expiryWarning, ...visibleRoom } = room;
+  const view: ClientRoom = {
+    ...visibleRoom,
+    players: room.players.map(({ reconnectToken, socketId, ...player }) => player),
+    spectators: room.spectators.map(({ socketId, ...spectator }) => spectator),
+    moderation: moderator ? room.moderation : [],
+    submitted,
+    prompt: null
+  };
+  if (room.gameState === 'results' && !moderator) return hideSubmissions(room, view);
+  if (room.gameState !== 'writing' && room.gameState !== 'drawing') return view;
+
+  return {
+    ...view,
+    sentences: [],
+    drawings: [],
+    chains: room.chains.map(chain => ({ ...chain, entries: [] })),
+    prompt: playerId && !room.donePlayers.includes(playerId) ? getPromptFor(room, playerId) : null
+  };
+};
+
+// Everyone who receives room state, each with their own view (bots have nowhere to receive it)
+export const getRoomAudiences = (room: GameRoom): Array<{ key: string; channel: string; view: ClientRoom }> => [
+  ...room.players.filter(p => !p.isBot).map(p => ({ key: p.id, channel: p.socketId, view: toRoomView(room, p.id) })),
+  { key: 'spectators', channel: spectatorChannel(room.id), view: toRoomView(room, null) }
+];
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { ArchivedGameLink, GameMode, GameState, RoomVisibility } from './models';
+import { logger } from './logger';
+import { Metrics } from './metrics';
+import { isArray, isObject, isOneOf, isString, optional } from './validation';
+
+export type WebhookEvent = 'room-created' | 'game-started' | 'phase-changed' | 'results' | 'room-closed';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['room-created', 'game-started', 'phase-changed', 'results', 'room-closed'];
+
+export interface WebhookPlayer {
+  id: string;
+  nickname: string;
+  isBot: boolean;
+}
+
+// Data sent with each event, inside the envelope every delivery shares
+export interface WebhookPayloads {
+  'room-created': { roomId: string; roomCode: string; visibility: RoomVisibility; hostId: string };
+  'game-started': {
+    roomId: string;
+    roomCode: string;
+    mode: GameMode;
+    rounds: number;
+    phase: GameState;
+    players: WebhookPlayer[];
+  };
+  'phase-changed': { roomId: string; roomCode: string; phase: GameState; round: number; deadline: number | null };
+  'results': {
+    roomId: string;
+    roomCode: string;
+    game: ArchivedGameLink | null; // Archived game and its download token, null if it could not be saved
+    rounds: number;
+    chainCount: number;
+    players: WebhookPlayer[];
+  };
+  'room-closed': { roomId: string; roomCode: string; reason: string };
+}
+
+export interface WebhookEndpoint {
+  url: string;
+  secret: string; // Key the payloads sent to this endpoint are signed with
+  events: WebhookEvent[]; // Events to send, all of them when empty
+}
+
+export interface WebhookOptions {
+  endpoints: WebhookEndpoint[];
+  maxQueueSize: number; // Deliveries waiting to be sent or retried, new ones are dropped beyond it
+  maxAttempts: number; // Including the first one
+  retryDelay: number; // Milliseconds before the first retry, doubled for every one after it
+  timeout: number; // Milliseconds to wait for an endpoint to answer
+  metrics?: Metrics;
+  now?: () => number; // Clock, replaced in tests
+}
+
+interface Delivery {
+  id: string; // Shared by the deliveries of one event to different endpoints
+  event: WebhookEvent;
+  endpoint: WebhookEndpoint;
+  body: string;
+  attempts: number;
+}
+
+type DeliveryResult = { delivered: true } | { delivered: false; retry: boolean; reason: string };
+
+// Deliveries in flight at once, across all endpoints
+const MAX_CONCURRENT_DELIVERIES = 4;
+
+const endpointSchema = isArray(isObject({
+  url: isString({ pattern: /^https?:\/\/\S+$/ }),
+  secret: isString({ min: 1 }),
+  events: optional(isArray(isOneOf(WEBHOOK_EVENTS)))
+}));
+
+// Read the endpoints from a JSON file holding an array of `{ url, secret, events? }`
+export const loadWebhookEndpoints = (filePath: string): WebhookEndpoint[] => {
+  const endpoints = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const error = endpointSchema(endpoints, 'webhooks');
+  if (error) throw new Error(`Invalid webhook configuration in ${filePath}: ${error}`);
+
+  return (endpoints as Array<Omit<WebhookEndpoint, 'events'> & { events?: WebhookEvent[] }>)
+    .map(({ url, secret, events = [] }) => ({ url, secret, events }));
+};
+
+// HMAC-SHA256 of the timestamp and the body, so a captured delivery cannot be replayed later with a new timestamp
+export const signWebhook = (secret: string, timestamp: number, body: string): string => {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+};
+
+// Posts lifecycle events to the configured endpoints in the background, retrying failed deliveries
+export class WebhookDispatcher {
+  private queue: Delivery[] = []; // Ready to be sent
+  private pending = 0; // Queued, in flight or waiting for a retry
+  private sending = 0;
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
+  private now: () => number;
+
+  constructor(private options: WebhookOptions) {
+    this.now = options.now || Date.now;
+  }
+
+  dispatch<E extends WebhookEvent>(event: E, data: WebhookPayloads[E]): void {
+    const endpoints = this.options.endpoints.filter(e => e.events.length === 0 || e.events.includes(event));
+    if (endpoints.length === 0) return;
+
+    const id = uuidv4();
+    const body = JSON.stringify({ id, event, createdAt: this.now(), data });
+    endpoints.forEach(endpoint => {
+      if (this.pending >= this.options.maxQueueSize) {
+        logger.warn('Webhook queue full, dropping delivery', { webhookEvent: event, url: endpoint.url });
+        this.options.metrics?.webhookDeliveries.inc({ event, result: 'dropped' });
+        return;
+      }
+
+      this.pending += 1;
+      this.queue.push({ id, event, endpoint, body, attempts: 0 });
+    });
+    this.drain();
+  }
+
+  // Cancel the retries still waiting, e.g. when shutting down
+  stop(): void {
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+  }
+
+  private drain(): void {
+    while (this.sending < MAX_CONCURRENT_DELIVERIES) {
+      const delivery = this.queue.shift();
+      if (!delivery) return;
+
+      this.sending += 1;
+      this.attempt(delivery).finally(() => {
+        this.sending -= 1;
+        this.drain();
+      });
+    }
+  }
+
+  private async attempt(delivery: Delivery): Promise<void> {
+    delivery.attempts += 1;
+    const result = await this.send(delivery);
+    const fields = {
+      webhookEvent: delivery.event,
+      deliveryId: delivery.id,
+      url: delivery.endpoint.url,
+      attempts: delivery.attempts
+    };
+
+    if (result.delivered) {
+      this.pending -= 1;
+      logger.debug('Webhook delivered', fields);
+      this.options.metrics?.webhookDeliveries.inc({ event: delivery.event, result: 'delivered' });
+      return;
+    }
+
+    if (result.retry && delivery.attempts < this.options.maxAttempts) {
+      const delay = this.options.retryDelay * 2 ** (delivery.attempts - 1);
+      logger.info('Webhook delivery failed, retrying', { ...fields, reason: result.reason, retryIn: delay });
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        this.queue.push(delivery);
+        this.drain();
+      }, delay);
+      this.retryTimers.add(timer);
+      return;
+    }
+
+    this.pending -= 1;
+    logger.warn('Webhook delivery failed', { ...fields, reason: result.reason });
+    this.options.metrics?.webhookDeliveries.inc({ event: delivery.event, result: 'failed' });
+  }
+
+  // Network errors, timeouts, rate limiting and server errors are worth retrying, other refusals are not
+  private async send(delivery: Delivery): Promise<DeliveryResult> {
+    // Signed when sent rather than when queued, so retries carry a fresh timestamp
+    const timestamp = Math.floor(this.now() / 1000);
+    try {
+      const response = await fetch(delivery.endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'mnsphone-webhooks',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhook(delivery.endpoint.secret, timestamp, delivery.body)
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(this.options.timeout)
+      });
+      // Only the status matters
+      await response.body?.cancel();
+
+      if (response.ok) return { delivered: true };
+      return { delivered: false, retry: response.status === 429 || response.status >= 500, reason: `HTTP ${response.status}` };
+    } catch (error) {
+      return { delivered: false, retry: true, reason: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { v4 as uuidv4 } from 'uuid';
+import { FileArchiveStore } from '../src/archive';
+import { MemoryImageStore } from '../src/images';
+import { GameArchive } from '../src/models';
+import { logger } from '../src/logger';
+
+// Keep test output to failures
+logger.setLevel('error');
+
+describe('file archive store', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mnsphone-archive-'));
+  });
+
+  after(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  // A finished game of a room, with one drawing
+  const createGame = (roomId: string, finishedAt: number, imageId: string): GameArchive => ({
+    id: uuidv4(),
+    downloadToken: 'token',
+    roomId,
+    roomCode: 'ABCD',
+    startedAt: new Date(finishedAt - 60 * 1000),
+    finishedAt: new Date(finishedAt),
+    maxRounds: 2,
+    settings: {
+      mode: 'classic',
+      firstPhase: 'writing',
+      maxPlayers: 10,
+      maxRounds: 1,
+      roundsFromPlayers: false,
+      writingDuration: 60,
+      drawingDuration: 90,
+      maxSpectators: 20,
+      visibility: 'public'
+    },
+    players: [],
+    chains: [{
+      id: uuidv4(),
+      ownerId: 'player',
+      entries: [{ type: 'drawing', playerId: 'player', content: imageId, round: 2 }]
+    }]
+  });
+
+  it('keeps the most recent games, across restarts, and drops the drawings of the others', async () => {
+    const images = new MemoryImageStore();
+    const imageIds = await Promise.all([1, 2, 3].map(size => images.save({ type: 'png', width: 1, height: 1, data: Buffer.alloc(size) })));
+    const [firstRoom, secondRoom] = [uuidv4(), uuidv4()];
+    const now = Date.now();
+    const oldest = createGame(firstRoom, now - 3000, imageIds[0]);
+    const middle = createGame(secondRoom, now - 2000, imageIds[1]);
+    const newest = createGame(secondRoom, now - 1000, imageIds[2]);
+
+    // Saved out of order, then found again by a new store
+    const store = new FileArchiveStore(directory, 2, images);
+    await store.save(middle);
+    await store.save(oldest);
+    await Promise.all(imageIds.map(imageId => images.release(imageId)));
+
+    const restarted = new FileArchiveStore(directory, 2, images);
+    await restarted.save(newest);
+
+    assert.equal(await restarted.get(firstRoom, oldest.id), null);
+    assert.equal(fs.existsSync(path.join(directory, firstRoom)), false);
+    assert.equal(await images.get(imageIds[0]), null);
+    assert.deepEqual((await restarted.listByRoom(secondRoom)).map(game => game.id), [newest.id, middle.id]);
+    assert.ok(await images.get(imageIds[1]));
+  });
+
+  it('only finds a game in its own room', async () => {
+    const images = new MemoryImageStore();
+    const store = new FileArchiveStore(directory, 10, images);
+    const game = createGame(uuidv4(), Date.now(), 'missing.png');
+    await store.save(game);
+
+    assert.equal((await store.get(game.roomId, game.id))?.id, game.id);
+    assert.equal(await store.get(uuidv4(), game.id), null);
+    assert.equal(await store.get('../' + game.roomId, game.id), null);
+  });
+});
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { Client, connectClient, createSocketOptions, DRAWING, startServer, TestServer, waitFor, waitUntil } from './helpers';
+
+describe('bots', () => {
+  const options = createSocketOptions({ botDelay: 20 });
+  let server: TestServer;
+  const clients: Client[] = [];
+
+  before(async () => {
+    server = await startServer(options);
+  });
+
+  after(async () => {
+    clients.forEach(client => client.disconnect());
+    await server.close();
+  });
+
+  const createRoom = async () => {
+    const host = await connectClient(server.url);
+    clients.push(host);
+    host.emit('create-room', { nickname: 'Host', profilePic: 'a' });
+    return { host, room: await waitFor(host, 'room-created') };
+  };
+
+  const addBot = async (host: Client) => {
+    host.emit('add-bot');
+    return waitFor(host, 'player-joined');
+  };
+
+  it('plays a whole game with the host', async () => {
+    const { host, room } = await createRoom();
+    await addBot(host);
+    await addBot(host);
+    host.emit('update-room-settings', { settings: { roundsFromPlayers: true } });
+    await waitFor(host, 'settings-changed');
+
+    // Answer every prompt right away
+    host.on('your-prompt', prompt => {
+      if (prompt.phase === 'writing') {
+        host.emit('submit-sentence', { text: `Host sentence ${prompt.round}` });
+      } else {
+        host.emit('submit-drawing', { imageData: DRAWING });
+      }
+    });
+    const results = new Promise<void>(resolve => {
+      host.on('phase-changed', payload => payload.phase === 'results' && resolve());
+    });
+
+    host.emit('start-game');
+    await results;
+
+    // Every chain went all the way around, with a real submission from everyone
+    const finished = await options.store.get(room.id);
+    assert.ok(finished);
+    assert.equal(finished.chains.length, 3);
+    finished.chains.forEach(chain => {
+      assert.deepEqual(chain.entries.map(entry => entry.type), ['sentence', 'drawing', 'sentence']);
+      assert.equal(new Set(chain.entries.map(entry => entry.playerId)).size, 3);
+      assert.ok(chain.entries.every(entry => !entry.placeholder && entry.content));
+    });
+
+    // Bots never hold a socket
+    assert.equal((await server.io.in(room.id).fetchSockets()).length, 1);
+  });
+
+  it('plays three writing and drawing rounds by default', async () => {
+    const { host, room } = await createRoom();
+    await addBot(host);
+
+    host.on('your-prompt', prompt => {
+      if (prompt.phase === 'writing') {
+        host.emit('submit-sentence', { text: `Host sentence ${prompt.round}` });
+      } else {
+        host.emit('submit-drawing', { imageData: DRAWING });
+      }
+    });
+    const results = new Promise<void>(resolve => {
+      host.on('phase-changed', payload => payload.phase === 'results' && resolve());
+    });
+    host.emit('start-game');
+    await results;
+
+    const finished = await options.store.get(room.id);
+    assert.equal(finished?.settings.maxRounds, 3);
+    finished?.chains.forEach(chain => {
+      assert.deepEqual(chain.entries.map(entry => entry.type), ['sentence', 'drawing', 'sentence', 'drawing', 'sentence', 'drawing']);
+    });
+  });
+
+  it('hands the host over to a person, never a bot', async () => {
+    const { host, room } = await createRoom();
+    await addBot(host);
+
+    const guest = await connectClient(server.url);
+    clients.push(guest);
+    guest.emit('join-room', { roomCode: room.code, nickname: 'Guest', profilePic: 'b' });
+    const joined = await waitFor(guest, 'room-joined');
+
+    const hostChanged = waitFor(guest, 'host-changed');
+    host.emit('leave-room');
+    assert.equal((await hostChanged).hostId, joined.playerId);
+  });
+
+  it('closes a room once only bots are left', async () => {
+    const { host, room } = await createRoom();
+    await addBot(host);
+
+    host.emit('leave-room');
+    await waitUntil(async () => (await options.store.get(room.id)) === null);
+  });
+});
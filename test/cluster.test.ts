@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { createPubSubAdapter, MemoryBroker } from '../src/cluster';
+import { Client, connectClient, createSocketOptions, DRAWING, startServer, TestServer, waitFor, waitUntil } from './helpers';
+
+// Two instances sharing one room store, relaying broadcasts over an in-process broker
+describe('cluster mode', () => {
+  const broker = new MemoryBroker();
+  const options = createSocketOptions();
+  let first: TestServer;
+  let second: TestServer;
+  const clients: Client[] = [];
+
+  before(async () => {
+    first = await startServer(options, { adapter: createPubSubAdapter(broker.createClient()) });
+    second = await startServer(options, { adapter: createPubSubAdapter(broker.createClient()) });
+  });
+
+  after(async () => {
+    clients.forEach(client => client.disconnect());
+    await Promise.all([first.close(), second.close()]);
+  });
+
+  const connectTo = async (server: TestServer): Promise<Client> => {
+    const client = await connectClient(server.url);
+    clients.push(client);
+    return client;
+  };
+
+  it('lists a room created on one instance in the lobby of the other', async () => {
+    const host = await connectTo(first);
+    const visitor = await connectTo(second);
+
+    host.emit('create-room', { nickname: 'Host', profilePic: 'a' });
+    const created = await waitFor(host, 'room-created');
+
+    visitor.emit('get-active-rooms');
+    const activeRooms = await waitFor(visitor, 'active-rooms');
+    assert.ok(activeRooms.some(room => room.code === created.code));
+  });
+
+  it('relays a join on one instance to the players on the other', async () => {
+    const host = await connectTo(first);
+    const guest = await connectTo(second);
+
+    host.emit('create-room', { nickname: 'Host', profilePic: 'a' });
+    const created = await waitFor(host, 'room-created');
+
+    const joinedBroadcast = waitFor(host, 'player-joined');
+    guest.emit('join-room', { roomCode: created.code, nickname: 'Guest', profilePic: 'b' });
+    const joined = await waitFor(guest, 'room-joined');
+
+    const broadcast = await joinedBroadcast;
+    assert.equal(broadcast.playerId, joined.playerId);
+    assert.equal(broadcast.nickname, 'Guest');
+
+    // Nobody learns the socket IDs of the others
+    assert.ok(joined.players.every(player => !('socketId' in player)));
+  });
+
+  it('kicks a player whose socket is on the other instance', async () => {
+    const host = await connectTo(first);
+    const guest = await connectTo(second);
+
+    host.emit('create-room', { nickname: 'Host', profilePic: 'a' });
+    const created = await waitFor(host, 'room-created');
+    guest.emit('join-room', { roomCode: created.code, nickname: 'Guest', profilePic: 'b' });
+    const joined = await waitFor(guest, 'room-joined');
+
+    const kicked = waitFor(guest, 'player-kicked');
+    const left = waitFor(host, 'player-left');
+    host.emit('kick-player', { playerId: joined.playerId });
+    await kicked;
+    assert.equal((await left).playerId, joined.playerId);
+
+    // The guest's socket left the room on its own instance
+    await waitUntil(async () => (await second.io.in(created.id).fetchSockets()).length === 1);
+    const room = await options.store.get(created.id);
+    assert.deepEqual(room?.players.map(p => p.nickname), ['Host']);
+  });
+
+  it('controls a replay from the instance a co-host is connected to', async () => {
+    const host = await connectTo(first);
+    const coHost = await connectTo(second);
+
+    host.emit('create-room', { nickname: 'Host', profilePic: 'a' });
+    const created = await waitFor(host, 'room-created');
+    coHost.emit('join-room', { roomCode: created.code, nickname: 'Co-host', profilePic: 'b' });
+    const joined = await waitFor(coHost, 'room-joined');
+    host.emit('set-co-host', { playerId: joined.playerId, coHost: true });
+    coHost.emit('toggle-ready');
+    host.emit('update-room-settings', { settings: { roundsFromPlayers: true } });
+    await waitFor(host, 'settings-changed');
+
+    // Both players write, then record a ten second drawing
+    [host, coHost].forEach(client => client.on('your-prompt', prompt => {
+      if (prompt.phase === 'writing') {
+        client.emit('submit-sentence', { text: `Sentence ${prompt.round}` });
+        return;
+      }
+      client.emit('append-strokes', { width: 100, height: 100, strokes: [{ color: '#000000', width: 2, points: [[0, 0, 0], [50, 50, 10000]] }] });
+      client.emit('submit-drawing', { imageData: DRAWING });
+    }));
+    const results = new Promise<void>(resolve => {
+      host.on('phase-changed', payload => payload.phase === 'results' && resolve());
+    });
+    host.emit('start-game');
+    await results;
+
+    host.emit('start-presentation');
+    await waitFor(coHost, 'presentation-started');
+    host.emit('replay-drawing', { chainIndex: 0, entryIndex: 1 });
+    const started = await waitFor(coHost, 'replay-started');
+
+    // The replay runs on the host's instance, the co-host's instance relays the controls to it
+    const paused = waitFor(host, 'replay-state');
+    coHost.emit('control-replay', { action: 'pause' });
+    const state = await paused;
+    assert.equal(state.replayId, started.replayId);
+    assert.equal(state.paused, true);
+
+    const ended = waitFor(host, 'replay-ended');
+    coHost.emit('control-replay', { action: 'stop' });
+    assert.deepEqual(await ended, { replayId: started.replayId, stopped: true });
+  });
+});
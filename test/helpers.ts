@@ -0,0 +1,107 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Server as SocketIOServer, ServerOptions } from 'socket.io';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { ClientToServerEvents, ServerToClientEvents } from '../src/events';
+import { initializeSocketEvents, Server, SocketOptions } from '../src/socket';
+import { MemoryRoomStore } from '../src/store';
+import { MemoryArchiveStore } from '../src/archive';
+import { MemoryImageStore } from '../src/images';
+import { RateLimiter } from '../src/ratelimit';
+import { Metrics } from '../src/metrics';
+import { TextModerator } from '../src/moderation';
+import { WebhookDispatcher } from '../src/webhooks';
+import { logger } from '../src/logger';
+
+export type Client = ClientSocket<ServerToClientEvents, ClientToServerEvents>;
+
+export interface TestServer {
+  io: Server;
+  url: string;
+  close(): Promise<void>;
+}
+
+// 1x1 PNG, small enough for any drawing limit
+export const DRAWING = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+// Keep test output to failures
+logger.setLevel('error');
+
+// Options for a server with everything in memory, the way a single instance runs by default
+export const createSocketOptions = (overrides: Partial<SocketOptions> = {}): SocketOptions => {
+  const images = overrides.images || new MemoryImageStore();
+  return {
+    store: new MemoryRoomStore(),
+    archives: new MemoryArchiveStore(100, images),
+    images,
+    drawingLimits: { maxBytes: 1024 * 1024, maxPixels: 1024 * 1024 },
+    rateLimiter: new RateLimiter({ banThreshold: 1000, banWindow: 60 * 1000, banDuration: 1000 }),
+    metrics: new Metrics(),
+    moderator: new TextModerator({ blockedWords: [], action: 'mask' }),
+    webhooks: new WebhookDispatcher({ endpoints: [], maxQueueSize: 10, maxAttempts: 1, retryDelay: 10, timeout: 1000 }),
+    maxRoomsPerClient: 100,
+    trustProxy: false,
+    inviteSecret: 'test-secret',
+    reconnectGracePeriod: 1000,
+    botDelay: 20,
+    resumeRooms: false,
+    ...overrides
+  };
+};
+
+// Start a server on a free local port
+export const startServer = async (options: SocketOptions, serverOptions: Partial<ServerOptions> = {}): Promise<TestServer> => {
+  const httpServer = http.createServer();
+  const io: Server = new SocketIOServer(httpServer, serverOptions);
+  initializeSocketEvents(io, options);
+
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    io,
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => io.close(() => resolve()))
+  };
+};
+
+export const connectClient = async (url: string): Promise<Client> => {
+  const client: Client = connect(url, { transports: ['websocket'], forceNew: true });
+  await new Promise<void>((resolve, reject) => {
+    client.once('connect', resolve);
+    client.once('connect_error', reject);
+  });
+  return client;
+};
+
+type EventPayload<E extends keyof ServerToClientEvents> = Parameters<ServerToClientEvents[E]>[0];
+
+// Resolve with the next payload of an event, failing the test if it does not come
+export const waitFor = <E extends keyof ServerToClientEvents>(
+  client: Client,
+  event: E,
+  timeout = 2000
+): Promise<EventPayload<E>> => {
+  // The client cannot resolve listener types for a generic event name
+  const untyped = client as unknown as ClientSocket;
+  return new Promise((resolve, reject) => {
+    const listener = (payload: EventPayload<E>) => {
+      clearTimeout(timer);
+      resolve(payload);
+    };
+    const timer = setTimeout(() => {
+      untyped.off(event as string, listener);
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, timeout);
+    untyped.once(event as string, listener);
+  });
+};
+
+// Resolve once a condition holds, checking every few milliseconds
+export const waitUntil = async (condition: () => boolean | Promise<boolean>, timeout = 2000): Promise<void> => {
+  const giveUpAt = Date.now() + timeout;
+  while (!(await condition())) {
+    if (Date.now() >= giveUpAt) throw new Error('Timed out waiting for a condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { createMetricsRouter, Metrics } from '../src/metrics';
+
+describe('metrics endpoint', () => {
+  const metrics = new Metrics();
+  let server: http.Server;
+  let url: string;
+
+  before(async () => {
+    const app = express();
+    app.use(createMetricsRouter(metrics, 'metrics-token', async () => {
+      metrics.activeRooms.set(2);
+    }));
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/metrics`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('refuses scrapes without the token', async () => {
+    assert.equal((await fetch(url)).status, 401);
+    assert.equal((await fetch(url, { headers: { Authorization: 'Bearer wrong' } })).status, 401);
+    assert.equal((await fetch(url, { headers: { Authorization: 'metrics-token' } })).status, 401);
+  });
+
+  it('serves the metrics with the token', async () => {
+    const response = await fetch(url, { headers: { Authorization: 'Bearer metrics-token' } });
+    assert.equal(response.status, 200);
+    assert.match(await response.text(), /^mnsphone_active_rooms 2$/m);
+  });
+});
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { TextModerator } from '../src/moderation';
+import { createHistoryRouter } from '../src/history';
+import { Client, connectClient, createSocketOptions, DRAWING, startServer, TestServer, waitFor, waitUntil } from './helpers';
+
+describe('moderation', () => {
+  const options = createSocketOptions({ moderator: new TextModerator({ blockedWords: ['badword'], action: 'mask' }) });
+  let server: TestServer;
+  let historyServer: http.Server;
+  let historyUrl: string;
+  const clients: Client[] = [];
+
+  before(async () => {
+    server = await startServer(options);
+
+    const app = express();
+    app.use(createHistoryRouter(options.archives, options.images));
+    historyServer = http.createServer(app);
+    await new Promise<void>(resolve => historyServer.listen(0, '127.0.0.1', resolve));
+    historyUrl = `http://127.0.0.1:${(historyServer.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    clients.forEach(client => client.disconnect());
+    await server.close();
+    await new Promise(resolve => historyServer.close(resolve));
+  });
+
+  const connect = async (): Promise<Client> => {
+    const client = await connectClient(server.url);
+    clients.push(client);
+    return client;
+  };
+
+  it('only ever shows masked nicknames to the other players', async () => {
+    const host = await connect();
+    host.emit('create-room', { nickname: 'Host', profilePic: 'a' });
+    const created = await waitFor(host, 'room-created');
+
+    const joinedBroadcast = waitFor(host, 'player-joined');
+    const guest = await connect();
+    guest.emit('join-room', { roomCode: created.code, nickname: 'badword guest', profilePic: 'b' });
+    await waitFor(guest, 'room-joined');
+    assert.equal((await joinedBroadcast).nickname, '******* guest');
+
+    const spectator = await connect();
+    spectator.emit('spectate-room', { roomCode: created.code, nickname: 'badword fan' });
+    const spectating = await waitFor(spectator, 'spectating');
+    assert.deepEqual(spectating.room.spectators.map(s => s.nickname), ['******* fan']);
+  });
+
+  it('leaves hidden submissions out of the downloads of the game', async () => {
+    const host = await connect();
+    host.emit('create-room', { nickname: 'Host', profilePic: 'a' });
+    const created = await waitFor(host, 'room-created');
+    host.emit('add-bot');
+    await waitFor(host, 'player-joined');
+    host.emit('update-room-settings', { settings: { roundsFromPlayers: true } });
+    await waitFor(host, 'settings-changed');
+
+    // Play the game through with a bot
+    host.on('your-prompt', prompt => {
+      if (prompt.phase === 'writing') {
+        host.emit('submit-sentence', { text: `Host sentence ${prompt.round}` });
+      } else {
+        host.emit('submit-drawing', { imageData: DRAWING });
+      }
+    });
+    const results = new Promise<void>(resolve => {
+      host.on('phase-changed', payload => payload.phase === 'results' && resolve());
+    });
+    host.emit('start-game');
+    await results;
+
+    const room = await options.store.get(created.id);
+    assert.ok(room?.lastGame);
+    const [chain] = room.chains;
+    const drawingIndex = chain.entries.findIndex(entry => entry.type === 'drawing');
+
+    const { gameId, downloadToken } = room.lastGame;
+    host.emit('hide-submission', { chainId: chain.id, entryIndex: 0, hidden: true });
+    host.emit('hide-submission', { chainId: chain.id, entryIndex: drawingIndex, hidden: true });
+    await waitUntil(async () => {
+      const archive = await options.archives.get(created.id, gameId);
+      return archive?.chains[0].entries.filter(entry => entry.hidden).length === 2;
+    });
+
+    const downloadUrl = `${historyUrl}/rooms/${created.id}/games/${gameId}/download?token=${downloadToken}`;
+    const game = await (await fetch(downloadUrl)).json();
+    const hiddenEntries = game.chains[0].entries.filter((entry: { hidden?: boolean }) => entry.hidden);
+    assert.deepEqual(hiddenEntries.map((entry: { content: string }) => entry.content), ['', '']);
+    assert.equal(JSON.stringify(game).includes(chain.entries[0].content), false);
+
+    // The gallery has no file for the hidden drawing
+    const zip = Buffer.from(await (await fetch(`${downloadUrl}&format=zip`)).arrayBuffer());
+    assert.equal(zip.includes(`chain-1-step-${drawingIndex + 1}`), false);
+    assert.equal(zip.includes(chain.entries[0].content), false);
+  });
+});
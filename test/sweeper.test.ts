@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { RoomSweeper, SweeperOptions } from '../src/sweeper';
+import { RoomExpiringPayload, RoomSessionPayload } from '../src/events';
+import { Client, connectClient, createSocketOptions, startServer, TestServer, waitFor } from './helpers';
+
+const IDLE_TIMEOUT = 60 * 1000;
+const MAX_AGE = 10 * 60 * 1000;
+const WARNING_PERIOD = 5 * 1000;
+
+describe('room sweeper', () => {
+  const options = createSocketOptions();
+  let server: TestServer;
+  let host: Client;
+  let room: RoomSessionPayload;
+  let clock: number;
+  const expiring: RoomExpiringPayload[] = [];
+  let closed = 0;
+
+  const createSweeper = (overrides: Partial<SweeperOptions> = {}) => new RoomSweeper(server.io, options.store, {
+    idleTimeout: IDLE_TIMEOUT,
+    maxAge: MAX_AGE,
+    warningPeriod: WARNING_PERIOD,
+    interval: 60 * 1000,
+    now: () => clock,
+    ...overrides
+  });
+
+  // Let the events of a sweep reach the client
+  const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+  before(async () => {
+    server = await startServer(options);
+  });
+
+  after(async () => {
+    host.disconnect();
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    host?.disconnect();
+    host = await connectClient(server.url);
+    host.on('room-expiring', payload => expiring.push(payload));
+    host.on('room-closed', () => closed++);
+    expiring.length = 0;
+    closed = 0;
+
+    host.emit('create-room', { nickname: 'Host', profilePic: 'a' });
+    room = await waitFor(host, 'room-created');
+    clock = Date.now();
+  });
+
+  it('warns once before closing an idle room', async () => {
+    const sweeper = createSweeper();
+    const closesAt = new Date(room.lastActivity).getTime() + IDLE_TIMEOUT;
+
+    clock = closesAt - WARNING_PERIOD - 1;
+    await sweeper.sweep();
+    await settle();
+    assert.equal(expiring.length, 0);
+
+    clock = closesAt - WARNING_PERIOD;
+    await sweeper.sweep();
+    await sweeper.sweep();
+    await settle();
+    assert.deepEqual(expiring, [{ roomCode: room.code, reason: 'idle', closesAt }]);
+    assert.equal(closed, 0);
+
+    clock = closesAt;
+    await sweeper.sweep();
+    await settle();
+    assert.equal(closed, 1);
+    assert.equal(await options.store.get(room.id), null);
+  });
+
+  it('keeps a room open when it is used after the warning', async () => {
+    const sweeper = createSweeper();
+    const closesAt = new Date(room.lastActivity).getTime() + IDLE_TIMEOUT;
+
+    clock = closesAt - 1;
+    await sweeper.sweep();
+    await settle();
+    assert.equal(expiring.length, 1);
+
+    host.emit('update-room-settings', { settings: { maxPlayers: 5 } });
+    await waitFor(host, 'settings-changed');
+
+    // Still within the idle timeout counted from the change
+    clock = closesAt;
+    await sweeper.sweep();
+    await settle();
+    assert.equal(closed, 0);
+    assert.ok(await options.store.get(room.id));
+  });
+
+  it('closes a room that reached its maximum age, however active it is', async () => {
+    const sweeper = createSweeper({ idleTimeout: MAX_AGE * 2 });
+    const closesAt = new Date(room.createdAt).getTime() + MAX_AGE;
+
+    clock = closesAt - 1;
+    await sweeper.sweep();
+    await settle();
+    assert.equal(expiring[0]?.reason, 'max-age');
+
+    clock = closesAt;
+    await sweeper.sweep();
+    await settle();
+    assert.equal(closed, 1);
+  });
+
+  it('warns and closes a room once when several instances sweep at the same time', async () => {
+    const sweepers = [createSweeper(), createSweeper(), createSweeper()];
+    const closesAt = new Date(room.lastActivity).getTime() + IDLE_TIMEOUT;
+
+    clock = closesAt - 1;
+    await Promise.all(sweepers.map(sweeper => sweeper.sweep()));
+    await settle();
+    assert.equal(expiring.length, 1);
+
+    clock = closesAt;
+    await Promise.all(sweepers.map(sweeper => sweeper.sweep()));
+    await settle();
+    assert.equal(closed, 1);
+  });
+
+  it('advances a phase whose timer was lost with another instance', async () => {
+    const sweeper = createSweeper({ idleTimeout: MAX_AGE, interval: 30 * 1000 });
+    host.emit('add-bot');
+    await waitFor(host, 'player-joined');
+    host.emit('start-game');
+    await waitFor(host, 'game-started');
+
+    const started = await options.store.get(room.id);
+    assert.ok(started?.phaseDeadline);
+
+    // The timer of this instance is still due to run
+    clock = started.phaseDeadline + 1000;
+    await sweeper.sweep();
+    assert.equal((await options.store.get(room.id))?.gameState, 'writing');
+
+    clock = started.phaseDeadline + 30 * 1000;
+    const advanced = waitFor(host, 'phase-changed');
+    await sweeper.sweep();
+    assert.equal((await advanced).phase, 'drawing');
+  });
+});
@@ -0,0 +1,170 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { signWebhook, WebhookDispatcher, WebhookEndpoint, WebhookOptions } from '../src/webhooks';
+import { Metrics } from '../src/metrics';
+import { connectClient, createSocketOptions, startServer, waitFor, waitUntil } from './helpers';
+
+interface ReceivedDelivery {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Local stand-in for the services receiving webhooks, answering with the queued statuses and 200 after them
+const createReceiver = async () => {
+  const received: ReceivedDelivery[] = [];
+  const statuses: number[] = [];
+  let hold: Promise<void> | null = null;
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', async () => {
+      received.push({ path: req.url || '', headers: req.headers, body });
+      if (hold) await hold;
+      res.writeHead(statuses.shift() || 200).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    received,
+    statuses,
+    url: (path: string) => `http://127.0.0.1:${port}${path}`,
+    // Keep requests waiting for an answer until the returned function is called
+    holdResponses: () => {
+      let release = () => {};
+      hold = new Promise(resolve => { release = resolve; });
+      return () => {
+        hold = null;
+        release();
+      };
+    },
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+};
+
+describe('webhooks', () => {
+  let receiver: Awaited<ReturnType<typeof createReceiver>>;
+  let metrics: Metrics;
+
+  const createDispatcher = (endpoints: WebhookEndpoint[], overrides: Partial<WebhookOptions> = {}) => new WebhookDispatcher({
+    endpoints,
+    maxQueueSize: 10,
+    maxAttempts: 3,
+    retryDelay: 10,
+    timeout: 1000,
+    metrics,
+    ...overrides
+  });
+
+  const countDeliveries = (result: string): number => {
+    const line = metrics.render().split('\n').find(l => l.startsWith('mnsphone_webhook_deliveries_total') && l.includes(`result="${result}"`));
+    return line ? Number(line.split(' ').pop()) : 0;
+  };
+
+  before(async () => {
+    receiver = await createReceiver();
+  });
+
+  after(async () => {
+    await receiver.close();
+  });
+
+  beforeEach(() => {
+    receiver.received.length = 0;
+    receiver.statuses.length = 0;
+    metrics = new Metrics();
+  });
+
+  it('posts signed JSON payloads', async () => {
+    const dispatcher = createDispatcher([{ url: receiver.url('/hook'), secret: 'shh', events: [] }]);
+    dispatcher.dispatch('room-closed', { roomId: 'room-1', roomCode: 'ABCD', reason: 'Everyone left' });
+    await waitUntil(() => receiver.received.length === 1);
+
+    const [delivery] = receiver.received;
+    const timestamp = Number(delivery.headers['x-webhook-timestamp']);
+    assert.equal(delivery.headers['x-webhook-event'], 'room-closed');
+    assert.equal(delivery.headers['x-webhook-signature'], signWebhook('shh', timestamp, delivery.body));
+
+    const envelope = JSON.parse(delivery.body);
+    assert.equal(envelope.id, delivery.headers['x-webhook-id']);
+    assert.equal(envelope.event, 'room-closed');
+    assert.deepEqual(envelope.data, { roomId: 'room-1', roomCode: 'ABCD', reason: 'Everyone left' });
+  });
+
+  it('only sends endpoints the events they asked for', async () => {
+    const dispatcher = createDispatcher([
+      { url: receiver.url('/everything'), secret: 'a', events: [] },
+      { url: receiver.url('/results'), secret: 'b', events: ['results'] }
+    ]);
+    dispatcher.dispatch('room-closed', { roomId: 'room-1', roomCode: 'ABCD', reason: 'Everyone left' });
+    await waitUntil(() => receiver.received.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    assert.deepEqual(receiver.received.map(d => d.path), ['/everything']);
+  });
+
+  it('retries server errors with a fresh signature until the delivery goes through', async () => {
+    receiver.statuses.push(500, 503);
+    const dispatcher = createDispatcher([{ url: receiver.url('/hook'), secret: 'shh', events: [] }]);
+    dispatcher.dispatch('room-closed', { roomId: 'room-1', roomCode: 'ABCD', reason: 'Everyone left' });
+
+    await waitUntil(() => countDeliveries('delivered') === 1);
+    assert.equal(receiver.received.length, 3);
+    receiver.received.forEach(delivery => {
+      const timestamp = Number(delivery.headers['x-webhook-timestamp']);
+      assert.equal(delivery.headers['x-webhook-signature'], signWebhook('shh', timestamp, delivery.body));
+    });
+    assert.equal(new Set(receiver.received.map(d => d.headers['x-webhook-id'])).size, 1);
+  });
+
+  it('gives up on refusals and after the last attempt', async () => {
+    receiver.statuses.push(400, 500, 500, 500);
+    const dispatcher = createDispatcher([{ url: receiver.url('/hook'), secret: 'shh', events: [] }]);
+    dispatcher.dispatch('room-closed', { roomId: 'room-1', roomCode: 'ABCD', reason: 'Everyone left' });
+    await waitUntil(() => countDeliveries('failed') === 1);
+    assert.equal(receiver.received.length, 1);
+
+    dispatcher.dispatch('room-closed', { roomId: 'room-2', roomCode: 'EFGH', reason: 'Everyone left' });
+    await waitUntil(() => countDeliveries('failed') === 2);
+    assert.equal(receiver.received.length, 4);
+  });
+
+  it('drops deliveries beyond the queue size', async () => {
+    const release = receiver.holdResponses();
+    const dispatcher = createDispatcher([{ url: receiver.url('/hook'), secret: 'shh', events: [] }], { maxQueueSize: 2 });
+    for (let i = 0; i < 3; i++) {
+      dispatcher.dispatch('room-closed', { roomId: `room-${i}`, roomCode: 'ABCD', reason: 'Everyone left' });
+    }
+    assert.equal(countDeliveries('dropped'), 1);
+
+    release();
+    await waitUntil(() => countDeliveries('delivered') === 2);
+  });
+
+  it('tells the endpoints about rooms created by players', async () => {
+    const options = createSocketOptions({
+      webhooks: createDispatcher([{ url: receiver.url('/hook'), secret: 'shh', events: ['room-created'] }])
+    });
+    const server = await startServer(options);
+    const host = await connectClient(server.url);
+
+    host.emit('create-room', { nickname: 'Host', profilePic: 'a' });
+    const room = await waitFor(host, 'room-created');
+    await waitUntil(() => receiver.received.length === 1);
+
+    const envelope = JSON.parse(receiver.received[0].body);
+    assert.equal(envelope.event, 'room-created');
+    assert.deepEqual(envelope.data, { roomId: room.id, roomCode: room.code, visibility: 'public', hostId: room.playerId });
+
+    host.disconnect();
+    await server.close();
+  });
+});